@@ -0,0 +1,133 @@
+// 오프라인 읽기용 서비스 워커(정적 export 산출물에 그대로 복사되어 /sw.js로 배포)
+// 캐시 이름은 src/lib/offline.ts와 맞춰야 함
+
+// 앱 셸이나 public/pdfjs(pdf.js)를 바꿔 배포하면 반드시 올림. 이전 버전 캐시는 activate에서 지움
+// 올릴 때 src/lib/offline.ts의 SW_VERSION도 같은 값으로 바꿔야 함(오프라인 저장이 같은 런타임 캐시를 씀)
+const VERSION = 'v2'
+const SHELL_CACHE = `ebook-shell-${VERSION}`
+// 정적 파일/방문한 페이지. 배포가 바뀌면 옛 해시 파일이 쌓이지 않도록 버전마다 새로 채움
+const RUNTIME_CACHE = `ebook-runtime-${VERSION}`
+// 교재 PDF. 사용자가 직접 지우기 전까지 유지
+const BOOKS_CACHE = 'ebook-books'
+
+const SHELL_ASSETS = ['/', '/manifest.webmanifest', '/icons/icon.svg', '/pdfjs/pdf.mjs', '/pdfjs/pdf.worker.min.mjs']
+
+self.addEventListener('install', (event) => {
+   event.waitUntil(
+      caches
+         .open(SHELL_CACHE)
+         .then((cache) => cache.addAll(SHELL_ASSETS))
+         .then(() => self.skipWaiting())
+   )
+})
+
+self.addEventListener('activate', (event) => {
+   event.waitUntil(
+      caches
+         .keys()
+         .then((keys) => Promise.all(keys.filter((k) => (k.startsWith('ebook-shell-') && k !== SHELL_CACHE) || (k.startsWith('ebook-runtime') && k !== RUNTIME_CACHE)).map((k) => caches.delete(k))))
+         .then(() => self.clients.claim())
+   )
+})
+
+const isPdf = (url) => url.pathname.toLowerCase().endsWith('.pdf')
+
+// 저장된 전체 PDF에서 Range 요청 부분만 잘라 206으로 응답(pdf.js 범위 요청 대응)
+async function rangeResponse(request, cached) {
+   const header = request.headers.get('range')
+   if (!header) return cached
+   const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+   const blob = await cached.blob()
+   const size = blob.size
+   if (!match) return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } })
+   let start = match[1] === '' ? size - Number(match[2]) : Number(match[1])
+   let end = match[1] !== '' && match[2] !== '' ? Number(match[2]) : size - 1
+   start = Math.max(0, start)
+   end = Math.min(size - 1, end)
+   if (start > end) return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } })
+   return new Response(blob.slice(start, end + 1), {
+      status: 206,
+      headers: {
+         'Content-Type': cached.headers.get('Content-Type') || 'application/pdf',
+         'Content-Length': String(end - start + 1),
+         'Content-Range': `bytes ${start}-${end}/${size}`,
+         'Accept-Ranges': 'bytes',
+      },
+   })
+}
+
+async function handlePdf(event) {
+   const { request } = event
+   const books = await caches.open(BOOKS_CACHE)
+   const cached = await books.match(request.url, { ignoreSearch: true })
+   if (cached) return rangeResponse(request, cached)
+
+   const response = await fetch(request)
+   // 범위 요청이 아닌 전체 응답이면 열어 본 책을 그대로 저장(다운로드 한 번으로 오프라인 준비)
+   if (!request.headers.has('range') && response.status === 200) {
+      event.waitUntil(books.put(request.url, response.clone()).catch(() => {}))
+   }
+   return response
+}
+
+// 페이지: 네트워크 우선, 실패하면 마지막으로 본 내용
+async function networkFirst(request) {
+   const cache = await caches.open(RUNTIME_CACHE)
+   try {
+      const response = await fetch(request)
+      if (response.ok) cache.put(request, response.clone()).catch(() => {})
+      return response
+   } catch (e) {
+      const cached = (await cache.match(request, { ignoreSearch: true })) || (await caches.match(request, { ignoreSearch: true }))
+      if (cached) return cached
+      // 처음 보는 교재 주소라도 목록 화면은 열리게
+      if (request.mode === 'navigate') {
+         const home = await caches.match('/')
+         if (home) return home
+      }
+      throw e
+   }
+}
+
+// /pdfjs: 파일명에 해시가 없으므로 버전별 셸 캐시에서만 꺼냄(pdf.mjs와 워커 버전이 항상 같게)
+async function fromShell(request) {
+   const shell = await caches.open(SHELL_CACHE)
+   const cached = await shell.match(request, { ignoreSearch: true })
+   if (cached) return cached
+   const response = await fetch(request)
+   if (response.ok) shell.put(request, response.clone()).catch(() => {})
+   return response
+}
+
+// /_next/static: 파일명에 내용 해시가 붙어 있어 이름이 같으면 내용도 같으므로 캐시 우선
+async function cacheFirst(request) {
+   const cached = await caches.match(request)
+   if (cached) return cached
+   const response = await fetch(request)
+   if (response.ok) {
+      const cache = await caches.open(RUNTIME_CACHE)
+      cache.put(request, response.clone()).catch(() => {})
+   }
+   return response
+}
+
+self.addEventListener('fetch', (event) => {
+   const { request } = event
+   if (request.method !== 'GET') return
+   const url = new URL(request.url)
+   if (url.origin !== self.location.origin) return
+
+   if (isPdf(url)) {
+      event.respondWith(handlePdf(event))
+      return
+   }
+   if (url.pathname.startsWith('/pdfjs/')) {
+      event.respondWith(fromShell(request))
+      return
+   }
+   if (url.pathname.startsWith('/_next/static/')) {
+      event.respondWith(cacheFirst(request))
+      return
+   }
+   event.respondWith(networkFirst(request))
+})
@@ -1,9 +1,46 @@
-"use client";
+'use client'
 
-import EbookFlipbook from "@/components/ebook/EbookFlipbook";
+import { useEffect, useState, type Ref } from 'react'
+import EbookFlipbook from '@/components/ebook/EbookFlipbook'
+import EbookFlipbookMobile from '@/components/ebook/EbookFlipbookMobile'
+import type { EbookViewerEvent, EbookViewerHandle } from '@/components/ebook/viewerApi'
+import type { Book } from '@/lib/books'
 
-export function EbookClient() {
-  return <EbookFlipbook pdfUrl="/book.pdf" />;
+export type EbookClientProps = {
+   book: Book
+   // 아래는 교재 삽입(/embed) 페이지에서만 씀
+   chrome?: boolean
+   embedded?: boolean
+   viewerRef?: Ref<EbookViewerHandle>
+   onViewerEvent?: (event: EbookViewerEvent) => void
 }
 
+// 기기에 맞는 뷰어(PC 스프레드 / 모바일 단면)를 골라서 마운트
+export function EbookClient({ book, chrome, embedded, viewerRef, onViewerEvent }: EbookClientProps) {
+   const [isMobile, setIsMobile] = useState(false)
 
+   useEffect(() => {
+      const checkDevice = () => {
+         const mobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) || 'ontouchstart' in window || window.innerWidth < 768
+         setIsMobile(mobile)
+      }
+
+      checkDevice()
+      window.addEventListener('resize', checkDevice)
+      return () => window.removeEventListener('resize', checkDevice)
+   }, [])
+
+   const viewerProps = {
+      pdfUrl: book.pdfUrl,
+      toc: book.toc,
+      passwordProtected: book.passwordProtected,
+      allowPrint: book.allowPrint,
+      allowDownload: book.allowDownload,
+      chrome,
+      embedded,
+      ref: viewerRef,
+      onViewerEvent,
+   }
+
+   return <div className="h-dvh w-dvw overflow-hidden bg-zinc-50 text-zinc-950 dark:bg-black dark:text-zinc-50">{isMobile ? <EbookFlipbookMobile {...viewerProps} /> : <EbookFlipbook {...viewerProps} />}</div>
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import type { EbookViewerEvent, EbookViewerHandle } from '@/components/ebook/viewerApi'
+import type { Book } from '@/lib/books'
+import { isAllowedEmbedOrigin, parseEmbedCommand, postToEmbedParent, type EmbedCommand } from '@/lib/embed'
+import { EbookClient } from './EbookClient'
+
+export type EmbedClientProps = {
+   book: Book
+}
+
+const subscribeNothing = () => () => {}
+// ?chrome=0 이면 도구 막대 없이 책만 보여 줌
+const readChrome = () => new URLSearchParams(window.location.search).get('chrome') !== '0'
+
+// ready 전에 온 명령을 쌓아 두는 최대 개수(부모가 실수로 계속 보내도 메모리를 잡아먹지 않게)
+const MAX_PENDING_COMMANDS = 20
+
+function runCommand(viewer: EbookViewerHandle, command: EmbedCommand, origin: string) {
+   switch (command.type) {
+      case 'goToPage':
+         viewer.goToPage(command.page)
+         break
+      case 'setZoom':
+         viewer.setZoom(command.zoom)
+         break
+      case 'getState':
+         postToEmbedParent({ type: 'state', id: command.id, state: viewer.getState() }, origin)
+         break
+   }
+}
+
+// 다른 사이트(LMS)에 iframe으로 넣는 뷰어. 허용한 주소의 부모 페이지와만 postMessage로 주고받음
+export function EmbedClient({ book }: EmbedClientProps) {
+   const viewerRef = useRef<EbookViewerHandle | null>(null)
+   const chrome = useSyncExternalStore(subscribeNothing, readChrome, () => true)
+   // 뷰어가 ready를 알리기 전에 온 명령. ready를 보낸 뒤 받은 순서대로 실행
+   const readyRef = useRef(false)
+   const pendingRef = useRef<{ command: EmbedCommand; origin: string }[]>([])
+
+   useEffect(() => {
+      const handleMessage = (e: MessageEvent) => {
+         if (e.source !== window.parent || !isAllowedEmbedOrigin(e.origin)) return
+         const command = parseEmbedCommand(e.data)
+         if (!command) return
+         const viewer = viewerRef.current
+         if (!readyRef.current || !viewer) {
+            if (pendingRef.current.length < MAX_PENDING_COMMANDS) pendingRef.current.push({ command, origin: e.origin })
+            return
+         }
+         runCommand(viewer, command, e.origin)
+      }
+      window.addEventListener('message', handleMessage)
+      return () => window.removeEventListener('message', handleMessage)
+   }, [])
+
+   const handleViewerEvent = (event: EbookViewerEvent) => {
+      postToEmbedParent(event)
+      // 불러오기에 실패하면 다시 불러와 ready를 알릴 때까지 명령을 다시 모아 둠
+      if (event.type === 'error') readyRef.current = false
+      if (event.type !== 'ready') return
+      readyRef.current = true
+      const viewer = viewerRef.current
+      const pending = pendingRef.current
+      pendingRef.current = []
+      if (viewer) pending.forEach(({ command, origin }) => runCommand(viewer, command, origin))
+   }
+
+   return <EbookClient book={book} chrome={chrome} embedded viewerRef={viewerRef} onViewerEvent={handleViewerEvent} />
+}
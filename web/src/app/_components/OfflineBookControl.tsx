@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { CheckCircle2, Download, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { isBookStored, isOfflineSupported, removeStoredBook, storeBookOffline, type OfflineProgress } from '@/lib/offline'
+
+type OfflineBookControlProps = {
+   pdfUrl: string
+   pageUrl: string
+}
+
+type OfflineState = { state: 'checking' } | { state: 'idle' } | { state: 'downloading'; progress: OfflineProgress } | { state: 'stored' } | { state: 'error'; message: string }
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`
+
+// 교재 카드 아래의 "오프라인 저장" / "저장됨 · 삭제"
+export function OfflineBookControl({ pdfUrl, pageUrl }: OfflineBookControlProps) {
+   const [status, setStatus] = useState<OfflineState>({ state: 'checking' })
+   const abortRef = useRef<AbortController | null>(null)
+
+   useEffect(() => {
+      if (!isOfflineSupported()) return
+      let cancelled = false
+      isBookStored(pdfUrl)
+         .then((stored) => {
+            if (!cancelled) setStatus({ state: stored ? 'stored' : 'idle' })
+         })
+         .catch(() => {
+            if (!cancelled) setStatus({ state: 'idle' })
+         })
+      return () => {
+         cancelled = true
+         abortRef.current?.abort()
+      }
+   }, [pdfUrl])
+
+   const download = async () => {
+      const controller = new AbortController()
+      abortRef.current = controller
+      setStatus({ state: 'downloading', progress: { loaded: 0, total: null } })
+      try {
+         await storeBookOffline({ pdfUrl, pageUrl, signal: controller.signal, onProgress: (progress) => setStatus({ state: 'downloading', progress }) })
+         setStatus({ state: 'stored' })
+      } catch {
+         if (controller.signal.aborted) {
+            setStatus({ state: 'idle' })
+            return
+         }
+         setStatus({ state: 'error', message: '저장하지 못했어요. 저장 공간과 인터넷 연결을 확인해 주세요.' })
+      }
+   }
+
+   const remove = async () => {
+      await removeStoredBook(pdfUrl).catch(() => {})
+      setStatus({ state: 'idle' })
+   }
+
+   if (status.state === 'checking') return null
+
+   if (status.state === 'downloading') {
+      const { loaded, total } = status.progress
+      const percent = total ? Math.min(100, Math.round((loaded / total) * 100)) : null
+      return (
+         <div className="mt-2 flex items-center gap-2">
+            <div className="min-w-0 flex-1">
+               <div className="h-2 overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800" role="progressbar" aria-label="오프라인 저장 중" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent ?? undefined}>
+                  <div className={percent === null ? 'h-full w-1/3 animate-pulse bg-zinc-900 dark:bg-zinc-100' : 'h-full bg-zinc-900 transition-[width] dark:bg-zinc-100'} style={percent === null ? undefined : { width: `${percent}%` }} />
+               </div>
+               <div className="mt-1 text-xs tabular-nums text-zinc-600 dark:text-zinc-400">{percent === null ? formatMb(loaded) : `${percent}% · ${formatMb(loaded)} / ${formatMb(total ?? 0)}`}</div>
+            </div>
+            <Button variant="ghost" className="h-9 w-9 shrink-0 p-0" onClick={() => abortRef.current?.abort()} aria-label="저장 취소">
+               <X className="h-4 w-4" />
+            </Button>
+         </div>
+      )
+   }
+
+   if (status.state === 'stored') {
+      return (
+         <div className="mt-2 flex items-center justify-between gap-2 text-sm">
+            <span className="flex items-center gap-1 text-emerald-700 dark:text-emerald-400">
+               <CheckCircle2 className="h-4 w-4" />
+               오프라인 저장됨
+            </span>
+            <Button variant="ghost" className="h-9 px-2 text-sm" onClick={() => void remove()} aria-label="저장한 교재 삭제">
+               <Trash2 className="h-4 w-4" />
+               삭제
+            </Button>
+         </div>
+      )
+   }
+
+   return (
+      <div className="mt-2">
+         <Button variant="outline" className="h-9 w-full text-sm" onClick={() => void download()}>
+            <Download className="h-4 w-4" />
+            오프라인 저장
+         </Button>
+         {status.state === 'error' ? (
+            <div className="mt-1 text-xs text-red-700 dark:text-red-300" role="alert">
+               {status.message}
+            </div>
+         ) : null}
+      </div>
+   )
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// 배포 빌드에서만 서비스 워커 등록(개발 서버에서는 캐시가 수정 사항을 가려서 끔)
+export function ServiceWorkerRegister() {
+   useEffect(() => {
+      if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+      // 사생활 보호 모드 등에서는 등록이 막힐 수 있음(오프라인 저장만 안 될 뿐 읽기에는 지장 없음)
+      navigator.serviceWorker.register('/sw.js').catch(() => {})
+   }, [])
+
+   return null
+}
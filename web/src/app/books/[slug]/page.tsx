@@ -0,0 +1,29 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { EbookClient } from '@/app/_components/EbookClient'
+import { books, getBook } from '@/lib/books'
+
+type BookPageProps = {
+   params: Promise<{ slug: string }>
+}
+
+// 정적 export: 매니페스트에 있는 교재만 빌드 시 페이지로 생성
+export const dynamicParams = false
+
+export function generateStaticParams() {
+   return books.map((b) => ({ slug: b.slug }))
+}
+
+export async function generateMetadata({ params }: BookPageProps): Promise<Metadata> {
+   const { slug } = await params
+   const book = getBook(slug)
+   return { title: book ? `${book.title} | 한올평생교육원-ebook` : '한올평생교육원-ebook' }
+}
+
+export default async function BookPage({ params }: BookPageProps) {
+   const { slug } = await params
+   const book = getBook(slug)
+   if (!book) notFound()
+
+   return <EbookClient book={book} />
+}
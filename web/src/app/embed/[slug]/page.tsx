@@ -0,0 +1,30 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { EmbedClient } from '@/app/_components/EmbedClient'
+import { books, getBook } from '@/lib/books'
+
+type EmbedPageProps = {
+   params: Promise<{ slug: string }>
+}
+
+// 교재 삽입용 페이지(/embed/[slug]). 교재 페이지와 같은 목록으로 정적 생성
+export const dynamicParams = false
+
+export function generateStaticParams() {
+   return books.map((b) => ({ slug: b.slug }))
+}
+
+export async function generateMetadata({ params }: EmbedPageProps): Promise<Metadata> {
+   const { slug } = await params
+   const book = getBook(slug)
+   // 검색 결과에는 원래 교재 페이지만 나오게
+   return { title: book ? `${book.title} | 한올평생교육원-ebook` : '한올평생교육원-ebook', robots: { index: false } }
+}
+
+export default async function EmbedPage({ params }: EmbedPageProps) {
+   const { slug } = await params
+   const book = getBook(slug)
+   if (!book) notFound()
+
+   return <EmbedClient book={book} />
+}
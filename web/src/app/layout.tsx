@@ -1,5 +1,6 @@
 import type { Metadata } from 'next'
 import { Geist, Geist_Mono } from 'next/font/google'
+import { ServiceWorkerRegister } from './_components/ServiceWorkerRegister'
 import './globals.css'
 
 const geistSans = Geist({
@@ -15,6 +16,7 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
    title: '한올평생교육원-ebook',
    description: '한올평생교육원-ebook',
+   appleWebApp: { capable: true, title: '한올 ebook' },
    viewport: {
       width: 'device-width',
       initialScale: 1,
@@ -30,7 +32,10 @@ export default function RootLayout({
 }>) {
    return (
       <html lang="ko">
-         <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>{children}</body>
+         <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
+            {children}
+            <ServiceWorkerRegister />
+         </body>
       </html>
    )
 }
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from 'next'
+
+// 홈 화면에 설치해 앱처럼 열 수 있게(서비스 워커는 public/sw.js)
+export default function manifest(): MetadataRoute.Manifest {
+   return {
+      name: '한올평생교육원 ebook',
+      short_name: '한올 ebook',
+      description: '한올평생교육원 교재를 어디서나 읽을 수 있는 전자책',
+      lang: 'ko',
+      start_url: '/',
+      scope: '/',
+      display: 'standalone',
+      background_color: '#fafafa',
+      theme_color: '#18181b',
+      icons: [
+         { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+         { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+      ],
+   }
+}
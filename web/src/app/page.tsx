@@ -1,22 +1,36 @@
-'use client'
-
-import { useEffect, useState } from 'react'
-import { EbookClient } from '@/app/_components/EbookClient'
-import EbookFlipbookMobile from '@/components/ebook/EbookFlipbookMobile'
+import Link from 'next/link'
+import { BookOpen } from 'lucide-react'
+import { books } from '@/lib/books'
+import { OfflineBookControl } from './_components/OfflineBookControl'
 
+// 교재 목록(카탈로그). 각 교재는 `/books/[slug]`에서 열림
 export default function Home() {
-   const [isMobile, setIsMobile] = useState(false)
-
-   useEffect(() => {
-      const checkDevice = () => {
-         const mobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) || 'ontouchstart' in window || window.innerWidth < 768
-         setIsMobile(mobile)
-      }
-
-      checkDevice()
-      window.addEventListener('resize', checkDevice)
-      return () => window.removeEventListener('resize', checkDevice)
-   }, [])
+   return (
+      <main className="no-scrollbar h-dvh w-dvw overflow-auto bg-zinc-50 text-zinc-950 dark:bg-black dark:text-zinc-50">
+         <div className="mx-auto max-w-5xl px-4 py-8 md:px-6 md:py-12">
+            <h1 className="mb-6 text-2xl font-bold md:mb-8 md:text-3xl">교재 목록</h1>
 
-   return <div className="h-dvh w-dvw overflow-hidden bg-zinc-50 text-zinc-950 dark:bg-black dark:text-zinc-50">{isMobile ? <EbookFlipbookMobile pdfUrl="/book.pdf" /> : <EbookClient />}</div>
+            <ul className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 md:gap-6">
+               {books.map((book) => (
+                  <li key={book.slug}>
+                     <Link href={`/books/${book.slug}`} className="group block rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:focus-visible:ring-zinc-700">
+                        <div className="flex aspect-[3/4] items-center justify-center overflow-hidden rounded-lg border border-zinc-200 bg-white shadow-sm transition-shadow group-hover:shadow-md dark:border-zinc-800 dark:bg-zinc-950">
+                           {book.cover ? (
+                              // 정적 export에서는 이미지 최적화 서버가 없으므로 일반 img 사용
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img src={book.cover} alt="" className="h-full w-full object-cover" />
+                           ) : (
+                              <BookOpen className="h-10 w-10 text-zinc-400" />
+                           )}
+                        </div>
+                        <div className="mt-2 text-base font-semibold md:text-lg">{book.title}</div>
+                        {book.description ? <div className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">{book.description}</div> : null}
+                     </Link>
+                     <OfflineBookControl pdfUrl={book.pdfUrl} pageUrl={`/books/${book.slug}`} />
+                  </li>
+               ))}
+            </ul>
+         </div>
+      </main>
+   )
 }
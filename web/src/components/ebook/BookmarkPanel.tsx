@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react'
+import { Download, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { BOOKMARK_LABEL_MAX } from './bookmarks'
+import type { BookmarksState } from './useBookmarks'
+
+interface BookmarkPanelProps {
+   bookmarks: BookmarksState
+   currentPageIndex: number
+   onSelect: (pageIndex: number) => void
+}
+
+export function BookmarkPanel({ bookmarks, currentPageIndex, onSelect }: BookmarkPanelProps) {
+   const fileRef = useRef<HTMLInputElement>(null)
+   const [message, setMessage] = useState<string | null>(null)
+   const items = bookmarks.bookmarks
+
+   const importSelected = async (file: File | undefined) => {
+      if (!file) return
+      try {
+         const count = await bookmarks.importFile(file)
+         setMessage(count > 0 ? `책갈피 ${count}개를 가져왔어요` : '가져올 책갈피가 없어요')
+      } catch {
+         setMessage('책갈피 파일을 읽지 못했어요')
+      }
+   }
+
+   return (
+      <div className="flex flex-col gap-2">
+         <div className="flex items-center gap-2 p-1">
+            <Button variant="outline" className="h-10 flex-1 text-sm" onClick={bookmarks.exportFile} disabled={items.length === 0}>
+               <Download className="h-4 w-4" />
+               내보내기
+            </Button>
+            <Button variant="outline" className="h-10 flex-1 text-sm" onClick={() => fileRef.current?.click()}>
+               <Upload className="h-4 w-4" />
+               가져오기
+            </Button>
+            <input
+               ref={fileRef}
+               type="file"
+               accept="application/json,.json"
+               className="hidden"
+               onChange={(e) => {
+                  void importSelected(e.target.files?.[0])
+                  // 같은 파일을 다시 골라도 onChange가 오도록 비움
+                  e.target.value = ''
+               }}
+            />
+         </div>
+
+         {message ? (
+            <div className="px-2 text-sm text-zinc-600 dark:text-zinc-400" role="status">
+               {message}
+            </div>
+         ) : null}
+
+         {items.length === 0 ? (
+            <p className="px-2 py-4 text-sm text-zinc-600 dark:text-zinc-400 md:text-base">아직 책갈피가 없어요. 위쪽 책갈피 버튼으로 지금 보는 쪽을 표시해 보세요.</p>
+         ) : (
+            <ul>
+               {items.map((b) => (
+                  <li key={b.pageIndex} className={cn('flex items-center gap-2 rounded-md px-2 py-1.5', b.pageIndex === currentPageIndex && 'bg-zinc-100 dark:bg-zinc-900')}>
+                     <button type="button" onClick={() => onSelect(b.pageIndex)} className="w-12 shrink-0 rounded py-2 text-left text-sm font-semibold tabular-nums hover:underline md:text-base" aria-label={`${b.pageIndex + 1}쪽으로 이동`}>
+                        {b.pageIndex + 1}쪽
+                     </button>
+                     <input
+                        type="text"
+                        value={b.label}
+                        maxLength={BOOKMARK_LABEL_MAX}
+                        onChange={(e) => bookmarks.setLabel(b.pageIndex, e.target.value)}
+                        placeholder="메모(선택)"
+                        aria-label={`${b.pageIndex + 1}쪽 책갈피 이름`}
+                        className="h-10 min-w-0 flex-1 rounded-md border border-zinc-200 bg-white px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus-visible:ring-zinc-700 md:text-base"
+                     />
+                     <Button variant="ghost" className="h-10 w-10 shrink-0 p-0" onClick={() => bookmarks.remove(b.pageIndex)} aria-label={`${b.pageIndex + 1}쪽 책갈피 삭제`}>
+                        <Trash2 className="h-4 w-4" />
+                     </Button>
+                  </li>
+               ))}
+            </ul>
+         )}
+      </div>
+   )
+}
@@ -1,68 +1,113 @@
 'use client'
 
-import React, { useEffect, useMemo, useRef, useState } from 'react'
+import React, { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react'
 import HTMLFlipBook from 'react-pageflip'
-import { ChevronLeft, ChevronRight, Loader2, Minus, Plus } from 'lucide-react'
+import { ALargeSmall, BookMarked, Bookmark, ChevronLeft, ChevronRight, Download, GalleryHorizontal, Keyboard, Minus, NotebookPen, Plus, Presentation, Printer, Search, TableOfContents } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
+import type { BookTocEntry } from '@/lib/books'
 import { cn } from '@/lib/utils'
-
-type PdfDocument = {
-   numPages: number
-   getPage: (pageNumber: number) => Promise<{
-      getViewport: (options: { scale: number }) => { width: number; height: number }
-      render: (params: { canvasContext: CanvasRenderingContext2D; viewport: { width: number; height: number } }) => { promise: Promise<void>; cancel: () => void }
-   }>
-}
-
-type PageFlipApi = {
-   pageFlip: () => {
-      flipNext: () => void
-      flipPrev: () => void
-      turnToPage: (pageIndex: number) => void
-      getCurrentPageIndex: () => number
-   }
-}
-
-function useElementSize<T extends HTMLElement>() {
-   const ref = useRef<T | null>(null)
-   const [size, setSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 })
-
-   useEffect(() => {
-      const el = ref.current
-      if (!el) return
-
-      const ro = new ResizeObserver((entries) => {
-         const cr = entries[0]?.contentRect
-         setSize({ width: cr?.width ?? 0, height: cr?.height ?? 0 })
-      })
-      ro.observe(el)
-      return () => ro.disconnect()
-   }, [])
-
-   return { ref, ...size }
-}
+import { BookmarkPanel } from './BookmarkPanel'
+import { ExternalLinkPrompt } from './ExternalLinkPrompt'
+import { toggleFullscreen } from './fullscreen'
+import { GoToPageDialog } from './GoToPageDialog'
+import { isEditableTarget, shortcutAction } from './keyboardShortcuts'
+import { NotesPanel } from './NotesPanel'
+import { PageAnnouncer } from './PageAnnouncer'
+import { NoteHighlights, PageHighlights, SpeechHighlight } from './PageHighlights'
+import { PageLinkLayer } from './PageLinkLayer'
+import { PageTextLayer } from './PageTextLayer'
+import { PasswordPrompt } from './PasswordPrompt'
+import { PdfErrorScreen } from './PdfErrorScreen'
+import { PdfLoadingScreen } from './PdfLoadingScreen'
+import { PresentationControls } from './PresentationControls'
+import { PrintDialog } from './PrintDialog'
+import { ReadAloudControls } from './ReadAloudControls'
+import { ReadAloudNotice } from './ReadAloudNotice'
+import { findActiveTocItem, loadOutlineToc, tocChapters, tocFromBookConfig, type TocItem } from './outline'
+import type { NoteColor } from './notes'
+import type { PageLinkTarget } from './pageLinks'
+import { SidePanel } from './panels'
+import type { PageFlipApi } from './pdfTypes'
+import { ResumePrompt } from './ResumePrompt'
+import { SearchPanel } from './SearchPanel'
+import { SelectionToolbar } from './SelectionToolbar'
+import { ShortcutHelp } from './ShortcutHelp'
+import { ThumbnailNavigator } from './ThumbnailNavigator'
+import { createThumbnailRenderer } from './thumbnails'
+import { TocList } from './TocList'
+import { useBookmarks } from './useBookmarks'
+import { useElementSize } from './useElementSize'
+import { useLargeUi } from './useLargeUi'
+import { useNotes } from './useNotes'
+import { usePageRenderEngine } from './usePageRenderEngine'
+import { readPageIndexFromLocation, usePageUrlSync } from './usePageUrlSync'
+import { usePdfDocument } from './usePdfDocument'
+import { usePresentation } from './usePresentation'
+import { useReadAloud } from './useReadAloud'
+import { useReadingProgress } from './useReadingProgress'
+import { useTextSearch } from './useTextSearch'
+import { useTextSelection } from './useTextSelection'
+import { useViewerEvents } from './useViewerEvents'
+import type { EbookViewerEvent, EbookViewerHandle } from './viewerApi'
+import { scrollToZoomAnchor, toViewPoint, zoomAnchorAt, type ContentPadding, type ViewPoint, type ZoomAnchor } from './zoomAnchor'
+
+const MIN_ZOOM = 0.7
+const MAX_ZOOM = 2.5
+// 책 둘레 여백(가로/세로)
+const PAD_X = 24
+const PAD_Y = 16
+// PDF 1pt를 화면 CSS 픽셀로(pdf.js "100%"와 같은 기준)
+const CSS_PX_PER_PT = 96 / 72
+// Ctrl+휠 한 번에 바뀌는 정도. 마우스 휠(한 칸 ≈ 100)은 크게, 트랙패드 핀치(작은 값 여러 번)는 부드럽게
+const WHEEL_ZOOM_FACTOR = 0.006
+const WHEEL_DELTA_MAX = 50
+// 휠/핀치가 멈춘 뒤 실제 배율로 다시 그리기까지 기다리는 시간
+const WHEEL_COMMIT_MS = 180
+
+const clampZoom = (z: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, Math.round(z * 100) / 100))
+const zoomInStep = (z: number) => Math.min(MAX_ZOOM, Math.round((z + 0.1) * 10) / 10)
+const zoomOutStep = (z: number) => Math.max(MIN_ZOOM, Math.round((z - 0.1) * 10) / 10)
+
+type ZoomPreset = 'fit-page' | 'fit-width' | 'actual'
+
+const ZOOM_PRESETS: { id: ZoomPreset; label: string; title: string }[] = [
+   { id: 'fit-page', label: '쪽 맞춤', title: '한 화면에 쪽 전체 보기' },
+   { id: 'fit-width', label: '폭 맞춤', title: '화면 너비에 맞추기' },
+   { id: 'actual', label: '실제 크기', title: '인쇄물과 같은 크기' },
+]
+
+// 사파리 트랙패드 핀치(비표준 GestureEvent)
+type SafariGestureEvent = Event & { scale: number; clientX: number; clientY: number }
 
 export type EbookFlipbookProps = {
    pdfUrl: string
+   // PDF에 목차(outline)가 없을 때 보여줄 교재 설정 목차
+   toc?: BookTocEntry[]
+   // 교재 설정상 암호 PDF(비밀번호 입력 안내 문구용)
+   passwordProtected?: boolean
+   // 교재 설정의 인쇄/내려받기 허용 여부
+   allowPrint?: boolean
+   allowDownload?: boolean
+   // false면 도구 막대 없이 책만(교재 삽입용)
+   chrome?: boolean
+   // 다른 사이트 iframe 안: 쪽 이동을 방문 기록에 쌓지 않음(부모 페이지 뒤로 가기 보호)
+   embedded?: boolean
+   ref?: React.Ref<EbookViewerHandle>
+   onViewerEvent?: (event: EbookViewerEvent) => void
    className?: string
 }
 
 // PC 전용 플립북 컴포넌트 (기존 동작 유지)
-export default function EbookFlipbook({ pdfUrl, className }: EbookFlipbookProps) {
+export default function EbookFlipbook({ pdfUrl, toc, passwordProtected = false, allowPrint = true, allowDownload = false, chrome = true, embedded = false, ref, onViewerEvent, className }: EbookFlipbookProps) {
    const { ref: containerRef, width: containerWidth, height: containerHeight } = useElementSize<HTMLDivElement>()
 
    const flipbookRef = useRef<PageFlipApi | null>(null)
-   const canvasRefs = useRef<Array<HTMLCanvasElement | null>>([])
-   const renderedPagesRef = useRef<Set<number>>(new Set())
-   const inflightPagesRef = useRef<Set<number>>(new Set())
-   const renderLoopIdRef = useRef(0)
-   const lastSizeKeyRef = useRef<string | null>(null)
    const autoFlipTimerRef = useRef<number | null>(null)
-   const scheduleTimerRef = useRef<number | null>(null)
-   const scheduleRenderRef = useRef<(() => void) | null>(null)
-   const pageIndexRef = useRef(0)
    const scrollRef = useRef<HTMLDivElement | null>(null)
+   const contentRef = useRef<HTMLDivElement | null>(null)
+   // 배율을 바꾸기 직전에 정한 기준점(커서 또는 화면 가운데). 새 크기로 그린 뒤 스크롤을 맞춤
+   const zoomAnchorRef = useRef<ZoomAnchor | null>(null)
    const dragScrollRef = useRef<{ active: boolean; x: number; y: number; left: number; top: number }>({
       active: false,
       x: 0,
@@ -71,28 +116,49 @@ export default function EbookFlipbook({ pdfUrl, className }: EbookFlipbookProps)
       top: 0,
    })
 
-   const [reloadNonce, setReloadNonce] = useState(0)
-   const [doc, setDoc] = useState<PdfDocument | null>(null)
-   const [numPages, setNumPages] = useState(0)
    const [pageIndex, setPageIndex] = useState(0)
    const [pageSize, setPageSize] = useState<{ w: number; h: number } | null>(null)
-   const [pageRatio, setPageRatio] = useState<number | null>(null) // height / width
    const [viewZoom, setViewZoom] = useState(1.0)
+   const [tocItems, setTocItems] = useState<TocItem[]>([])
+   const [openPanel, setOpenPanel] = useState<'toc' | 'search' | 'bookmarks' | 'notes' | null>(null)
+   const [showThumbs, setShowThumbs] = useState(false)
    const [panBySpace, setPanBySpace] = useState(false)
    const [isPanning, setIsPanning] = useState(false)
+   const [openDialog, setOpenDialog] = useState<'go-to-page' | 'shortcuts' | 'print' | null>(null)
+   // 플립북이 시작 쪽(딥링크 포함)을 펼쳐 놓았는지. 바깥(교재 삽입)에 ready를 알리는 시점
+   const [flipbookReady, setFlipbookReady] = useState(false)
+
+   const { doc, numPages, pageRatio, pageWidth, status, reload, submitPassword, cancelPassword } = usePdfDocument(pdfUrl, {
+      onLoaded: (loaded) => {
+         // 딥링크(?page=37, #p37)가 있으면 해당 페이지에서 시작
+         const linked = readPageIndexFromLocation()
+         setPageIndex(linked == null ? 0 : Math.min(loaded.numPages - 1, linked))
+         setFlipbookReady(false)
+      },
+   })
 
-   const [status, setStatus] = useState<{ state: 'idle' } | { state: 'loading' } | { state: 'rendering'; rendered: number; total: number } | { state: 'ready' } | { state: 'error'; message: string }>({ state: 'idle' })
+   const { largeUi, toggleLargeUi } = useLargeUi()
 
    const isNarrow = containerWidth > 0 && containerWidth < 768
-   const controlsH = 84
 
-   const targetPageSize = useMemo(() => {
+   const presentation = usePresentation({
+      pageIndex,
+      numPages,
+      pagesPerView: isNarrow ? 1 : 2,
+      onAdvance: () => flipbookRef.current?.pageFlip().flipNext(),
+   })
+
+   // 큰 버튼 보기에서는 상단 막대가 높아지는 만큼 책을 내림. 발표 중이나 막대 없는 삽입 화면은 화면 전체를 씀
+   const controlsH = presentation.active || !chrome ? 0 : largeUi ? 100 : 84
+   // 하단 썸네일 띠가 열려 있으면 그만큼 책 높이를 줄여 가리지 않게 함
+   const thumbsH = showThumbs && !presentation.active ? 132 : 0
+
+   // 줌 1(쪽 맞춤)일 때의 페이지 너비와 폭 맞춤일 때의 너비
+   const fitLayout = useMemo(() => {
       if (!pageRatio) return null
 
-      const padX = 24
-      const padY = 16
-      const availableW = Math.max(0, containerWidth - padX * 2)
-      const availableH = Math.max(0, containerHeight - controlsH - padY * 2)
+      const availableW = Math.max(0, containerWidth - PAD_X * 2)
+      const availableH = Math.max(0, containerHeight - controlsH - thumbsH - PAD_Y * 2)
       if (availableW <= 0 || availableH <= 0) return null
 
       // PC(스프레드=2페이지) 기준: "가장 크게" 맞추기
@@ -101,86 +167,63 @@ export default function EbookFlipbook({ pdfUrl, className }: EbookFlipbookProps)
       const maxWByHeight = pageRatio > 0 ? availableH / pageRatio : maxWByWidth
       const baseW = Math.max(0, Math.min(maxWByWidth, maxWByHeight))
 
+      return { baseW, fitWidthW: maxWByWidth }
+   }, [containerWidth, containerHeight, controlsH, thumbsH, isNarrow, pageRatio])
+
+   const targetPageSize = useMemo(() => {
+      if (!fitLayout || !pageRatio) return null
       // 줌은 페이지 자체 크기를 키우고, 이동은 스크롤(스크롤바 숨김 + 드래그)
-      const w = baseW * viewZoom
+      const w = fitLayout.baseW * viewZoom
       const h = w * pageRatio
-
       return { w, h }
-   }, [containerWidth, containerHeight, controlsH, isNarrow, pageRatio, viewZoom])
-
-   useEffect(() => {
-      let cancelled = false
-
-      async function load() {
-         setStatus({ state: 'loading' })
-         setDoc(null)
-         setNumPages(0)
-         setPageIndex(0)
-         setPageSize(null)
-         setPageRatio(null)
-
-         try {
-            // Webpack 번들링을 피하기 위해(해당 경로에서 runtime 에러 발생) public 에서 네이티브 import로 로드
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore - webpackIgnore 주석은 번들러 힌트이며 TS 타입은 d.ts로 보강
-            const pdfjs = (await import(/* webpackIgnore: true */ '/pdfjs/pdf.mjs')) as unknown as {
-               getDocument: typeof import('pdfjs-dist').getDocument
-               GlobalWorkerOptions: { workerSrc: string }
-            }
-
-            pdfjs.GlobalWorkerOptions.workerSrc = '/pdfjs/pdf.worker.min.mjs'
-
-            const task = pdfjs.getDocument({ url: pdfUrl })
-            const loaded = (await task.promise) as unknown as PdfDocument
-            if (cancelled) return
-
-            setDoc(loaded)
-            setNumPages(loaded.numPages)
-
-            const first = await loaded.getPage(1)
-            if (cancelled) return
-            const vp = first.getViewport({ scale: 1 })
-            const ratio = vp.width > 0 ? vp.height / vp.width : null
-            setPageRatio(ratio)
-            setStatus({ state: 'ready' })
-         } catch (e) {
-            if (cancelled) return
-            // 원인 추적을 위해 브라우저 콘솔에 원본 에러(스택 포함)를 남김
-            // eslint-disable-next-line no-console
-            console.error('[EbookFlipbook] pdf.js load error:', e)
-            const message = e instanceof Error ? e.message : 'PDF를 불러오지 못했습니다.'
-            setStatus({ state: 'error', message })
-         }
+   }, [fitLayout, pageRatio, viewZoom])
+
+   // 배율 단축 버튼. 쪽 맞춤은 줌 1, 나머지는 같은 계산에서 비율로
+   const presetZooms = useMemo<Record<ZoomPreset, number> | null>(() => {
+      if (!fitLayout || fitLayout.baseW <= 0) return null
+      return {
+         'fit-page': 1,
+         'fit-width': clampZoom(fitLayout.fitWidthW / fitLayout.baseW),
+         actual: pageWidth ? clampZoom((pageWidth * CSS_PX_PER_PT) / fitLayout.baseW) : 1,
       }
+   }, [fitLayout, pageWidth])
 
-      load()
-      return () => {
-         cancelled = true
-      }
-   }, [pdfUrl, reloadNonce])
+   // 컨테이너 측정 전(0px) 등으로 계산이 잠시 null이 되어도 마지막 크기를 유지
+   if (targetPageSize && targetPageSize !== pageSize) setPageSize(targetPageSize)
 
-   useEffect(() => {
-      if (!targetPageSize) return
-      setPageSize(targetPageSize)
-   }, [targetPageSize])
+   // 스크롤 영역 안에서 책 둘레 여백(위는 상단 바, 아래는 썸네일 띠만큼 더)
+   const contentPad = useMemo<Exclude<ContentPadding, number>>(() => ({ top: controlsH + PAD_Y, right: PAD_X, bottom: thumbsH + PAD_Y, left: PAD_X }), [controlsH, thumbsH])
+
+   // 스프레드면 두 쪽을 합친 크기가 책 전체
+   const bookSize = useMemo(() => (pageSize ? { w: isNarrow ? pageSize.w : pageSize.w * 2, h: pageSize.h } : null), [pageSize, isNarrow])
 
    useEffect(() => {
-      // 줌/사이즈 변경 시 스크롤을 가운데로(스크롤바는 숨김)
+      // 줌/사이즈 변경 뒤, 바꾸기 전에 정한 기준점이 같은 자리에 오도록 스크롤(스크롤바는 숨김)
       const el = scrollRef.current
-      if (!el) return
+      const anchor = zoomAnchorRef.current
+      zoomAnchorRef.current = null
+      if (!el || !bookSize) return
+      let frame = 0
+      let tries = 0
+      const apply = () => {
+         // 휠/핀치 중 임시로 키워 보이던 화면은 새 크기로 다시 그린 뒤 원래대로
+         if (contentRef.current) contentRef.current.style.transform = ''
+         if (!anchor) return
+         // 플립북이 새 크기로 자리 잡기 전이면 다음 프레임에 다시 맞춤
+         if (!scrollToZoomAnchor(el, bookSize, contentPad, anchor) && ++tries < 4) frame = requestAnimationFrame(apply)
+      }
       // 다음 프레임에 측정값이 확정되므로 rAF로 한 번 미룸
-      requestAnimationFrame(() => {
-         el.scrollLeft = Math.max(0, (el.scrollWidth - el.clientWidth) / 2)
-         el.scrollTop = Math.max(0, (el.scrollHeight - el.clientHeight) / 2)
-      })
-   }, [viewZoom])
-
-   useEffect(() => {
-      pageIndexRef.current = pageIndex
-   }, [pageIndex])
+      frame = requestAnimationFrame(apply)
+      return () => cancelAnimationFrame(frame)
+   }, [bookSize, contentPad])
 
+   // 발표 중에는 스페이스가 자동 넘기기 멈춤/계속(아래 단축키 처리)이므로 패닝으로 가로채지 않음
+   const presenting = presentation.active
    useEffect(() => {
+      if (presenting) return
       const handleKeyDown = (e: KeyboardEvent) => {
+         // 메모·검색창에서는 스페이스를 그대로 입력
+         if (isEditableTarget(e.target)) return
          if (e.code === 'Space') {
             setPanBySpace(true)
             // 스페이스 누른 채 스크롤 이동 시 페이지 점프를 막음
@@ -196,180 +239,311 @@ export default function EbookFlipbook({ pdfUrl, className }: EbookFlipbookProps)
          window.removeEventListener('keydown', handleKeyDown)
          window.removeEventListener('keyup', handleKeyUp)
       }
-   }, [])
+   }, [presenting])
 
    const sizeKey = useMemo(() => {
       if (!pageSize) return null
       return `${Math.round(pageSize.w)}x${Math.round(pageSize.h)}`
    }, [pageSize])
 
+   const flipbookKey = `${sizeKey ?? 'no-size'}-${isNarrow ? 'single' : 'spread'}`
+
+   // 두 페이지 스프레드 기준으로 현재/주변만 선렌더링 (답답함 방지)
+   const { canvasRef, shouldMountCanvas } = usePageRenderEngine({
+      doc,
+      pageSize,
+      viewZoom,
+      pageIndex,
+      before: isNarrow ? 2 : 4,
+      after: isNarrow ? 4 : 10,
+      keepWindow: isNarrow ? 6 : 12,
+      layoutKey: flipbookKey,
+   })
+
+   const canUseFlipbook = status.state !== 'error' && numPages > 0 && pageSize && pageSize.w > 10 && pageSize.h > 10
+
+   const currentPageLabel = useMemo(() => {
+      // react-pageflip은 내부적으로 0-based page index
+      const total = Math.max(1, numPages)
+      const left = Math.min(total, Math.max(1, pageIndex + 1))
+      if (isNarrow) return `${left} / ${total}`
+      const right = Math.min(total, left + 1)
+      return right === left ? `${left} / ${total}` : `${left}-${right} / ${total}`
+   }, [isNarrow, pageIndex, numPages])
+
+   // 화면 낭독기에 읽어 줄 현재 위치("3쪽과 4쪽, 전체 120쪽")
+   const pageAnnouncement = useMemo(() => {
+      if (numPages <= 0) return ''
+      const left = Math.min(numPages, pageIndex + 1)
+      const right = isNarrow ? left : Math.min(numPages, left + 1)
+      return right === left ? `${left}쪽, 전체 ${numPages}쪽` : `${left}쪽과 ${right}쪽, 전체 ${numPages}쪽`
+   }, [isNarrow, pageIndex, numPages])
+
+   // 특정 페이지로 바로 이동(딥링크/뒤로 가기 등). turnToPage는 onFlip을 보내지 않아 직접 동기화
+   const goToPage = useCallback(
+      (targetIndex: number) => {
+         const api = flipbookRef.current?.pageFlip?.()
+         if (!api) return null
+         const target = Math.max(0, Math.min(Math.max(0, numPages - 1), targetIndex))
+         api.turnToPage(target)
+         const current = api.getCurrentPageIndex?.()
+         const idx = typeof current === 'number' && Number.isFinite(current) ? current : target
+         setPageIndex(idx)
+         return idx
+      },
+      [numPages]
+   )
+
+   usePageUrlSync({
+      enabled: numPages > 0,
+      pageIndex,
+      jumpThreshold: embedded ? Infinity : isNarrow ? 1 : 2,
+      onNavigate: goToPage,
+   })
+
    useEffect(() => {
       if (!doc) return
-      if (!pageSize) return
-      if (numPages <= 0) return
-
-      const pdfDoc = doc
-      const size = pageSize
-      const loopId = ++renderLoopIdRef.current
-      const renderTasks: Array<{ cancel: () => void } | null> = new Array(numPages).fill(null)
       let cancelled = false
-
-      const currentSizeKey = `${Math.round(size.w)}x${Math.round(size.h)}@${viewZoom.toFixed(2)}`
-      if (lastSizeKeyRef.current !== currentSizeKey) {
-         // 줌/리사이즈로 페이지 크기가 바뀌면: 캐시 초기화 + 캔버스 깨끗이
-         renderedPagesRef.current.clear()
-         inflightPagesRef.current.clear()
-         lastSizeKeyRef.current = currentSizeKey
-
-         for (const c of canvasRefs.current) {
-            if (!c) continue
-            c.dataset.sizeKey = currentSizeKey
-            const ctx = c.getContext('2d')
-            if (ctx) ctx.clearRect(0, 0, c.width, c.height)
-         }
+      // PDF 목차(outline)를 우선 사용하고, 없으면 교재 설정 목차로 대체
+      void loadOutlineToc(doc).then((items) => {
+         if (cancelled) return
+         setTocItems(items.length > 0 ? items : tocFromBookConfig(toc ?? []))
+      })
+      return () => {
+         cancelled = true
       }
+   }, [doc, toc])
 
-      const waitForCanvas = async (index: number, maxFrames = 180) => {
-         // react-pageflip이 DOM을 늦게 구성하는 경우가 있어, ref가 붙을 때까지 잠시 대기
-         for (let i = 0; i < maxFrames; i++) {
-            if (cancelled) return null
-            if (renderLoopIdRef.current !== loopId) return null
-            const c = canvasRefs.current[index]
-            if (c) return c
-            await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()))
-         }
-         return null
-      }
+   const activeTocItem = useMemo(() => findActiveTocItem(tocItems, isNarrow ? pageIndex : pageIndex + 1), [tocItems, pageIndex, isNarrow])
 
-      const renderOne = async (pageNo: number) => {
-         if (cancelled) return
-         if (pageNo < 1 || pageNo > numPages) return
-         if (renderLoopIdRef.current !== loopId) return
+   const search = useTextSearch(doc)
 
-         const renderedPages = renderedPagesRef.current
-         const inflightPages = inflightPagesRef.current
-         if (renderedPages.has(pageNo) || inflightPages.has(pageNo)) return
-         inflightPages.add(pageNo)
+   const readAloud = useReadAloud({
+      getPageText: search.getPageText,
+      numPages,
+      visiblePages: isNarrow ? [pageIndex] : [pageIndex, pageIndex + 1].filter((i) => i < numPages),
+      onTurnTo: goToPage,
+   })
 
-         // 줌 시 글자가 뭉개지지 않게 DPR을 줌에 맞춰 올리되, 상한을 둠(메모리 폭주 방지)
-         const baseDpr = Math.max(1, window.devicePixelRatio || 1)
-         const dpr = Math.min(3, baseDpr * Math.min(1.6, viewZoom))
+   const thumbnails = useMemo(() => (doc ? createThumbnailRenderer(doc) : null), [doc])
+   useEffect(() => () => thumbnails?.dispose(), [thumbnails])
 
-         const canvas = await waitForCanvas(pageNo - 1)
-         if (!canvas) {
-            inflightPages.delete(pageNo)
-            return
-         }
+   const togglePanel = (panel: 'toc' | 'search' | 'bookmarks' | 'notes') => setOpenPanel((v) => (v === panel ? null : panel))
 
-         const page = await pdfDoc.getPage(pageNo)
-         if (cancelled) {
-            inflightPages.delete(pageNo)
-            return
-         }
+   const bookmarks = useBookmarks({ pdfUrl, numPages })
+   const pageBookmarked = bookmarks.isBookmarked(pageIndex)
 
-         const vp1 = page.getViewport({ scale: 1 })
-         const scale = size.w / vp1.width
-         const viewport = page.getViewport({ scale: scale * dpr })
+   const notes = useNotes({ pdfUrl, enabled: numPages > 0 })
+   const textSelection = useTextSelection(numPages > 0)
+   const [focusNoteId, setFocusNoteId] = useState<string | null>(null)
 
-         // 같은 사이즈키로 이미 그렸으면(애니메이션 중 깜빡임 방지) 건드리지 않음
-         if (canvas.dataset.sizeKey !== currentSizeKey) {
-            canvas.dataset.sizeKey = currentSizeKey
-         }
+   const highlightSelection = (color: NoteColor, withNote: boolean) => {
+      const sel = textSelection.selection
+      if (!sel) return
+      const note = notes.addHighlight(sel.pageIndex, sel.highlight, color)
+      textSelection.clear()
+      if (!withNote) return
+      setFocusNoteId(note.id)
+      setOpenPanel('notes')
+   }
+
+   const [pendingExternalUrl, setPendingExternalUrl] = useState<string | null>(null)
 
-         const nextW = Math.floor(viewport.width)
-         const nextH = Math.floor(viewport.height)
-         if (canvas.width !== nextW) canvas.width = nextW
-         if (canvas.height !== nextH) canvas.height = nextH
-         if (canvas.style.width !== `${size.w}px`) canvas.style.width = `${size.w}px`
-         if (canvas.style.height !== `${size.h}px`) canvas.style.height = `${size.h}px`
+   // 내부 링크는 바로 넘기고, 외부 주소는 확인 후 새 탭으로
+   const openPageLink = (target: PageLinkTarget) => {
+      if (target.kind === 'internal') goToPage(target.pageIndex)
+      else setPendingExternalUrl(target.url)
+   }
+
+   const { resume, dismissResume } = useReadingProgress({ pdfUrl, enabled: numPages > 0, pageIndex, zoom: viewZoom })
 
-         const ctx = canvas.getContext('2d', { alpha: false })
-         if (!ctx) {
-            inflightPages.delete(pageNo)
+   const resumeReading = () => {
+      if (!resume) return
+      zoomTo(resume.zoom)
+      goToPage(resume.pageIndex)
+      dismissResume()
+   }
+
+   const zoomLabel = `${Math.round(viewZoom * 100)}%`
+   const canZoomOut = viewZoom > MIN_ZOOM
+   const canZoomIn = viewZoom < MAX_ZOOM
+
+   // 모든 배율 변경은 여기로. focus(화면 좌표)가 없으면 지금 보고 있는 화면 가운데를 기준으로 유지
+   const zoomTo = useCallback(
+      (next: number, focus?: ViewPoint) => {
+         const el = scrollRef.current
+         const zoom = clampZoom(next)
+         if (zoom === viewZoom) {
+            if (contentRef.current) contentRef.current.style.transform = ''
             return
          }
-
-         try {
-            const task = page.render({ canvasContext: ctx, viewport })
-            renderTasks[pageNo - 1] = task
-            await task.promise
-            renderedPages.add(pageNo)
-         } catch (e) {
-            // 빠른 넘김/리렌더 과정에서 발생하는 취소는 정상 케이스라 조용히 무시
-            const name = (e as any)?.name
-            const msg = (e as any)?.message
-            if (name === 'RenderingCancelledException' || (typeof msg === 'string' && msg.includes('Rendering cancelled'))) {
-               // noop
-            } else {
-               // eslint-disable-next-line no-console
-               console.error(`[EbookFlipbook] render error (page ${pageNo}):`, e)
-            }
-         } finally {
-            inflightPages.delete(pageNo)
+         if (el && bookSize) {
+            const point = focus ? toViewPoint(el, focus.x, focus.y) : { x: el.clientWidth / 2, y: el.clientHeight / 2 }
+            zoomAnchorRef.current = zoomAnchorAt(el, bookSize, contentPad, point)
          }
-      }
+         setViewZoom(zoom)
+      },
+      [bookSize, contentPad, viewZoom]
+   )
 
-      const renderWindow = async () => {
-         // 두 페이지 스프레드 기준으로 현재/주변만 선렌더링 (답답함 방지)
-         const current = Math.max(0, Math.min(numPages - 1, pageIndexRef.current))
-         const currentPageNo = current + 1
-         const want = new Set<number>()
-
-         // 현재 스프레드(2장) + 앞뒤 버퍼
-         const start = Math.max(1, currentPageNo - (isNarrow ? 2 : 4))
-         const end = Math.min(numPages, currentPageNo + (isNarrow ? 4 : 10))
-         for (let p = start; p <= end; p++) want.add(p)
-
-         const renderedPages = renderedPagesRef.current
-         setStatus({ state: 'rendering', rendered: renderedPages.size, total: numPages })
-         for (const p of want) {
-            if (cancelled) return
-            // eslint-disable-next-line no-await-in-loop
-            await renderOne(p)
-            setStatus({ state: 'rendering', rendered: renderedPages.size, total: numPages })
-         }
+   // 발표는 패널·썸네일을 닫고 쪽 맞춤으로 시작
+   const { start: beginPresentation } = presentation
+   const startPresentation = useCallback(() => {
+      setOpenPanel(null)
+      setShowThumbs(false)
+      setOpenDialog(null)
+      zoomTo(1)
+      beginPresentation()
+   }, [beginPresentation, zoomTo])
+
+   useImperativeHandle(
+      ref,
+      () => ({
+         goToPage: (page: number) => goToPage(Math.round(page) - 1),
+         setZoom: (zoom: number) => zoomTo(zoom),
+         getState: () => ({ page: pageIndex + 1, numPages, zoom: viewZoom }),
+      }),
+      [goToPage, numPages, pageIndex, viewZoom, zoomTo]
+   )
 
-         // 최소한 현재 페이지가 렌더되면 ready로 전환
-         if (renderedPages.has(currentPageNo) || renderedPages.has(currentPageNo + 1) || renderedPages.has(currentPageNo - 1)) {
-            setStatus({ state: 'ready' })
-         }
-      }
+   useViewerEvents({ ready: !!canUseFlipbook && flipbookReady, status, pageIndex, numPages, zoom: viewZoom, onEvent: onViewerEvent })
 
-      const schedule = () => {
-         if (cancelled) return
-         if (scheduleTimerRef.current) window.clearTimeout(scheduleTimerRef.current)
-         // 다다다닥 넘길 때 렌더를 모아서(애니메이션 이후) 한 번만 수행
-         scheduleTimerRef.current = window.setTimeout(() => {
-            void renderWindow()
-         }, 160)
+   // Ctrl+휠, 트랙패드 핀치: 멈출 때까지는 화면만 키워 보여주고(커서 기준), 멈추면 실제 배율로 다시 그림
+   useEffect(() => {
+      const el = scrollRef.current
+      if (!el || !canUseFlipbook) return
+      let gesture: { scale: number; origin: ViewPoint } | null = null
+      let commitTimer: number | null = null
+
+      const preview = () => {
+         const content = contentRef.current
+         if (!gesture || !content) return
+         const local = toViewPoint(el, gesture.origin.x, gesture.origin.y)
+         content.style.transformOrigin = `${el.scrollLeft + local.x}px ${el.scrollTop + local.y}px`
+         content.style.transform = `scale(${gesture.scale})`
+      }
+      const commit = () => {
+         if (commitTimer !== null) window.clearTimeout(commitTimer)
+         commitTimer = null
+         const g = gesture
+         gesture = null
+         if (g) zoomTo(viewZoom * g.scale, g.origin)
+      }
+      const setScale = (scale: number, origin: ViewPoint) => {
+         gesture ??= { scale: 1, origin }
+         gesture.scale = Math.max(MIN_ZOOM / viewZoom, Math.min(MAX_ZOOM / viewZoom, scale))
+         preview()
       }
-      scheduleRenderRef.current = schedule
 
-      // 최초 1회 + zoom 변경 시 보충 렌더
-      schedule()
+      const onWheel = (e: WheelEvent) => {
+         // 트랙패드 핀치도 브라우저가 Ctrl+휠로 보냄
+         if (!e.ctrlKey && !e.metaKey) return
+         e.preventDefault()
+         const delta = Math.max(-WHEEL_DELTA_MAX, Math.min(WHEEL_DELTA_MAX, e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY))
+         setScale((gesture?.scale ?? 1) * Math.exp(-delta * WHEEL_ZOOM_FACTOR), { x: e.clientX, y: e.clientY })
+         if (commitTimer !== null) window.clearTimeout(commitTimer)
+         commitTimer = window.setTimeout(commit, WHEEL_COMMIT_MS)
+      }
+      const onGestureStart = (e: Event) => {
+         e.preventDefault()
+         const g = e as SafariGestureEvent
+         gesture = { scale: 1, origin: { x: g.clientX, y: g.clientY } }
+      }
+      const onGestureChange = (e: Event) => {
+         e.preventDefault()
+         const g = e as SafariGestureEvent
+         setScale(g.scale, { x: g.clientX, y: g.clientY })
+      }
+      const onGestureEnd = (e: Event) => {
+         e.preventDefault()
+         commit()
+      }
 
+      el.addEventListener('wheel', onWheel, { passive: false })
+      el.addEventListener('gesturestart', onGestureStart)
+      el.addEventListener('gesturechange', onGestureChange)
+      el.addEventListener('gestureend', onGestureEnd)
       return () => {
-         cancelled = true
-         scheduleRenderRef.current = null
-         if (scheduleTimerRef.current) window.clearTimeout(scheduleTimerRef.current)
-         for (const t of renderTasks) t?.cancel?.()
+         if (commitTimer !== null) window.clearTimeout(commitTimer)
+         el.removeEventListener('wheel', onWheel)
+         el.removeEventListener('gesturestart', onGestureStart)
+         el.removeEventListener('gesturechange', onGestureChange)
+         el.removeEventListener('gestureend', onGestureEnd)
       }
-   }, [doc, numPages, pageSize, isNarrow, viewZoom])
+   }, [canUseFlipbook, viewZoom, zoomTo])
 
-   const canUseFlipbook = status.state !== 'error' && numPages > 0 && pageSize && pageSize.w > 10 && pageSize.h > 10
-
-   const currentPageLabel = useMemo(() => {
-      // react-pageflip은 내부적으로 0-based page index
-      const total = Math.max(1, numPages)
-      const left = Math.min(total, Math.max(1, pageIndex + 1))
-      if (isNarrow) return `${left} / ${total}`
-      const right = Math.min(total, left + 1)
-      return right === left ? `${left} / ${total}` : `${left}-${right} / ${total}`
-   }, [isNarrow, pageIndex, numPages])
-
-   const zoomLabel = `${Math.round(viewZoom * 100)}%`
-   const canZoomOut = viewZoom > 0.7
-   const canZoomIn = viewZoom < 2.5
+   // 키보드 단축키(? 키로 목록). 스페이스는 위의 패닝 처리에서 따로 다룸
+   useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+         if (e.defaultPrevented || isEditableTarget(e.target)) return
+         // Ctrl+P는 화면 그대로가 아니라 고른 쪽을 인쇄 해상도로 인쇄
+         if ((e.ctrlKey || e.metaKey) && e.code === 'KeyP' && allowPrint && canUseFlipbook && !openDialog) {
+            e.preventDefault()
+            setOpenDialog('print')
+            return
+         }
+         // 발표 중: 스페이스는 자동 넘기기 멈춤/계속(버튼 위에서는 버튼 동작), Esc는 끝내기(전체 화면이 아니었을 때)
+         if (presentation.active && !openDialog && !(e.target instanceof HTMLButtonElement)) {
+            if (e.code === 'Space' && !e.repeat) {
+               presentation.togglePlaying()
+               e.preventDefault()
+               return
+            }
+            if (e.key === 'Escape') {
+               presentation.stop()
+               return
+            }
+         }
+         const action = shortcutAction(e, { zoomed: viewZoom > 1 })
+         if (!action) return
+         // 작은 창이 열려 있으면 도움말 켜고 끄기만(나머지는 Esc로 닫은 뒤)
+         if (openDialog && action !== 'help') return
+         if (action === 'help') {
+            setOpenDialog((v) => (v === 'shortcuts' ? null : 'shortcuts'))
+            e.preventDefault()
+            return
+         }
+         if (action === 'fullscreen') {
+            void toggleFullscreen()
+            e.preventDefault()
+            return
+         }
+         if (!canUseFlipbook) return
+         e.preventDefault()
+         switch (action) {
+            case 'presentation':
+               if (presentation.active) presentation.stop()
+               else startPresentation()
+               break
+            case 'prev':
+               flipbookRef.current?.pageFlip().flipPrev()
+               break
+            case 'next':
+               flipbookRef.current?.pageFlip().flipNext()
+               break
+            case 'first':
+               goToPage(0)
+               break
+            case 'last':
+               goToPage(numPages - 1)
+               break
+            case 'zoom-in':
+               zoomTo(zoomInStep(viewZoom))
+               break
+            case 'zoom-out':
+               zoomTo(zoomOutStep(viewZoom))
+               break
+            case 'zoom-reset':
+               zoomTo(1)
+               break
+            case 'go-to-page':
+               setOpenDialog('go-to-page')
+               break
+         }
+      }
+      window.addEventListener('keydown', handleKeyDown)
+      return () => window.removeEventListener('keydown', handleKeyDown)
+   }, [allowPrint, canUseFlipbook, goToPage, numPages, openDialog, presentation, startPresentation, viewZoom, zoomTo])
 
    const startAutoFlip = (dir: 'next' | 'prev') => {
       if (!canUseFlipbook) return
@@ -388,66 +562,139 @@ export default function EbookFlipbook({ pdfUrl, className }: EbookFlipbookProps)
    }
 
    return (
-      <section ref={containerRef} className={cn('flex h-dvh w-dvw flex-col bg-zinc-50 text-zinc-950 dark:bg-black dark:text-zinc-50', className)}>
-         {/* 컨트롤 바(항상 상단 고정 - 줌 영향 받지 않음) */}
-         <div className="fixed top-0 left-0 right-0 z-10 flex items-center justify-between gap-2 border-b border-zinc-200 bg-white/95 px-2 py-2 backdrop-blur dark:border-zinc-800 dark:bg-zinc-950/90 md:gap-3 md:px-3 md:py-3 md:px-5">
-            <div className="flex items-center gap-1 md:gap-2">
-               <Button
-                  variant="secondary"
-                  className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base"
-                  onClick={() => flipbookRef.current?.pageFlip().flipPrev()}
-                  onPointerDown={() => startAutoFlip('prev')}
-                  onPointerUp={stopAutoFlip}
-                  onPointerCancel={stopAutoFlip}
-                  onPointerLeave={stopAutoFlip}
-                  disabled={!canUseFlipbook}
-               >
-                  <ChevronLeft className="h-4 w-4 md:h-5 md:w-5" />
-                  <span className="hidden sm:inline">이전</span>
-               </Button>
-               <Button
-                  variant="secondary"
-                  className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base"
-                  onClick={() => flipbookRef.current?.pageFlip().flipNext()}
-                  onPointerDown={() => startAutoFlip('next')}
-                  onPointerUp={stopAutoFlip}
-                  onPointerCancel={stopAutoFlip}
-                  onPointerLeave={stopAutoFlip}
-                  disabled={!canUseFlipbook}
-               >
-                  <span className="hidden sm:inline">다음</span>
-                  <ChevronRight className="h-4 w-4 md:h-5 md:w-5" />
-               </Button>
-            </div>
-
-            <div className="flex items-center gap-1 md:gap-3">
-               <div className="text-sm font-semibold tabular-nums md:text-base">{currentPageLabel}</div>
-
-               <div className="flex items-center gap-1 md:gap-2">
-                  <Button variant="outline" className="h-8 w-8 p-0 md:h-12 md:w-12" onClick={() => setViewZoom((z) => Math.max(0.7, Math.round((z - 0.1) * 10) / 10))} disabled={!canUseFlipbook || !canZoomOut} aria-label="축소">
-                     <Minus className="h-3 w-3 md:h-4 md:w-4" />
+      <section ref={containerRef} data-large-ui={largeUi || undefined} data-no-print={!allowPrint || undefined} className={cn('flex h-dvh w-dvw flex-col bg-zinc-50 text-zinc-950 dark:bg-black dark:text-zinc-50', presentation.active && !presentation.controlsVisible && 'cursor-none', className)}>
+         {/* 컨트롤 바(항상 상단 고정 - 줌 영향 받지 않음). 발표 중에는 숨겨지는 하단 막대로 바뀜 */}
+         {presentation.active ? (
+            <PresentationControls
+               presentation={presentation}
+               currentPageLabel={currentPageLabel}
+               canPrevPage={!!canUseFlipbook && pageIndex > 0}
+               canNextPage={!!canUseFlipbook && pageIndex + (isNarrow ? 1 : 2) < numPages}
+               onPrevPage={() => flipbookRef.current?.pageFlip().flipPrev()}
+               onNextPage={() => flipbookRef.current?.pageFlip().flipNext()}
+            />
+         ) : chrome ? (
+            <nav aria-label="교재 도구" data-toolbar className="fixed top-0 left-0 right-0 z-10 flex items-center justify-between gap-2 border-b border-zinc-200 bg-white/95 px-2 py-2 backdrop-blur dark:border-zinc-800 dark:bg-zinc-950/90 md:gap-3 md:px-3 md:py-3 md:px-5">
+               {/* 태블릿 너비에서는 배율 맞춤까지 보이므로 왼쪽 도구가 넘치면 가로로 밀어서 봄 */}
+               <div className="no-scrollbar flex min-w-0 items-center gap-1 overflow-x-auto md:gap-2">
+                  {tocItems.length > 0 ? (
+                     <Button variant={openPanel === 'toc' ? 'default' : 'outline'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => togglePanel('toc')} aria-label="목차" aria-pressed={openPanel === 'toc'}>
+                        <TableOfContents className="h-4 w-4 md:h-5 md:w-5" />
+                     </Button>
+                  ) : null}
+                  <Button variant={showThumbs ? 'default' : 'outline'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => setShowThumbs((v) => !v)} disabled={!doc} aria-label="페이지 모아보기" aria-pressed={showThumbs}>
+                     <GalleryHorizontal className="h-4 w-4 md:h-5 md:w-5" />
+                  </Button>
+                  <Button variant={openPanel === 'search' ? 'default' : 'outline'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => togglePanel('search')} disabled={!doc} aria-label="검색" aria-pressed={openPanel === 'search'}>
+                     <Search className="h-4 w-4 md:h-5 md:w-5" />
                   </Button>
-                  <div className="min-w-12 text-center text-xs font-semibold tabular-nums md:min-w-20 md:text-base">{zoomLabel}</div>
-                  <Button variant="outline" className="h-8 w-8 p-0 md:h-12 md:w-12" onClick={() => setViewZoom((z) => Math.min(2.5, Math.round((z + 0.1) * 10) / 10))} disabled={!canUseFlipbook || !canZoomIn} aria-label="확대">
-                     <Plus className="h-3 w-3 md:h-4 md:w-4" />
+                  <Button variant={pageBookmarked ? 'default' : 'outline'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => bookmarks.toggle(pageIndex)} disabled={!canUseFlipbook} aria-label={pageBookmarked ? '책갈피 빼기' : '책갈피 꽂기'} aria-pressed={pageBookmarked}>
+                     <Bookmark className={cn('h-4 w-4 md:h-5 md:w-5', pageBookmarked && 'fill-current')} />
+                  </Button>
+                  <Button variant={openPanel === 'bookmarks' ? 'default' : 'outline'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => togglePanel('bookmarks')} disabled={!doc} aria-label="책갈피 목록" aria-pressed={openPanel === 'bookmarks'}>
+                     <BookMarked className="h-4 w-4 md:h-5 md:w-5" />
+                  </Button>
+                  <Button variant={openPanel === 'notes' ? 'default' : 'outline'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => togglePanel('notes')} disabled={!doc} aria-label="내 메모" aria-pressed={openPanel === 'notes'}>
+                     <NotebookPen className="h-4 w-4 md:h-5 md:w-5" />
+                  </Button>
+                  {allowPrint || allowDownload ? (
+                     <Button variant="outline" className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => setOpenDialog('print')} disabled={!canUseFlipbook} aria-label={allowPrint ? '인쇄' : '내려받기'} title={allowPrint ? '인쇄 (Ctrl+P)' : undefined}>
+                        {allowPrint ? <Printer className="h-4 w-4 md:h-5 md:w-5" /> : <Download className="h-4 w-4 md:h-5 md:w-5" />}
+                     </Button>
+                  ) : null}
+                  <ReadAloudControls readAloud={readAloud} disabled={!canUseFlipbook} />
+                  <Button
+                     variant="secondary"
+                     className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base"
+                     onClick={() => flipbookRef.current?.pageFlip().flipPrev()}
+                     onPointerDown={() => startAutoFlip('prev')}
+                     onPointerUp={stopAutoFlip}
+                     onPointerCancel={stopAutoFlip}
+                     onPointerLeave={stopAutoFlip}
+                     disabled={!canUseFlipbook}
+                     aria-label="이전 페이지"
+                  >
+                     <ChevronLeft className="h-4 w-4 md:h-5 md:w-5" />
+                     <span className="hidden sm:inline">이전</span>
+                  </Button>
+                  <Button
+                     variant="secondary"
+                     className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base"
+                     onClick={() => flipbookRef.current?.pageFlip().flipNext()}
+                     onPointerDown={() => startAutoFlip('next')}
+                     onPointerUp={stopAutoFlip}
+                     onPointerCancel={stopAutoFlip}
+                     onPointerLeave={stopAutoFlip}
+                     disabled={!canUseFlipbook}
+                     aria-label="다음 페이지"
+                  >
+                     <span className="hidden sm:inline">다음</span>
+                     <ChevronRight className="h-4 w-4 md:h-5 md:w-5" />
                   </Button>
                </div>
-            </div>
-         </div>
-
-         {status.state === 'error' ? <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">{status.message}</div> : null}
 
-         {status.state === 'loading' ? (
-            <div className="flex flex-1 items-center justify-center gap-3 text-base text-zinc-700 dark:text-zinc-200">
-               <Loader2 className="animate-spin" />
-               PDF 불러오는 중…
-            </div>
+               <div className="flex shrink-0 items-center gap-1 md:gap-3">
+                  <button
+                     type="button"
+                     data-toolbar-label
+                     className="rounded-md px-1 text-sm font-semibold tabular-nums hover:bg-zinc-100 focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-sky-600 disabled:pointer-events-none dark:hover:bg-zinc-900 dark:focus-visible:ring-sky-400 md:px-2 md:text-base"
+                     onClick={() => setOpenDialog('go-to-page')}
+                     disabled={!canUseFlipbook}
+                     aria-label={`현재 ${currentPageLabel}쪽, 눌러서 페이지 이동`}
+                     title="페이지 이동 (G)"
+                  >
+                     {currentPageLabel}
+                  </button>
+
+                  <div className="flex items-center gap-1 md:gap-2">
+                     <Button variant="outline" className="h-8 w-8 p-0 md:h-12 md:w-12" onClick={() => zoomTo(zoomOutStep(viewZoom))} disabled={!canUseFlipbook || !canZoomOut} aria-label="축소">
+                        <Minus className="h-3 w-3 md:h-4 md:w-4" />
+                     </Button>
+                     <div data-toolbar-label className="min-w-12 text-center text-xs font-semibold tabular-nums md:min-w-20 md:text-base">
+                        {zoomLabel}
+                     </div>
+                     <Button variant="outline" className="h-8 w-8 p-0 md:h-12 md:w-12" onClick={() => zoomTo(zoomInStep(viewZoom))} disabled={!canUseFlipbook || !canZoomIn} aria-label="확대">
+                        <Plus className="h-3 w-3 md:h-4 md:w-4" />
+                     </Button>
+                     <div role="group" aria-label="배율 맞춤" className="hidden items-center gap-1 md:flex">
+                        {ZOOM_PRESETS.map((preset) => {
+                           const zoom = presetZooms?.[preset.id]
+                           return (
+                              <Button key={preset.id} variant={zoom === viewZoom ? 'secondary' : 'outline'} className="h-12 px-3 text-sm" onClick={() => zoom && zoomTo(zoom)} disabled={!canUseFlipbook || !zoom} title={preset.title} aria-pressed={zoom === viewZoom}>
+                                 {preset.label}
+                              </Button>
+                           )
+                        })}
+                     </div>
+                     <Button variant="ghost" className="hidden h-12 w-12 p-0 md:inline-flex" onClick={() => setOpenDialog('shortcuts')} aria-label="키보드 단축키" title="키보드 단축키 (?)">
+                        <Keyboard className="h-5 w-5" />
+                     </Button>
+                     <Button variant="ghost" className="hidden h-12 w-12 p-0 md:inline-flex" onClick={startPresentation} disabled={!canUseFlipbook} aria-label="발표 모드" title="발표 모드 (P)">
+                        <Presentation className="h-5 w-5" />
+                     </Button>
+                     <Button variant={largeUi ? 'default' : 'ghost'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={toggleLargeUi} aria-label="큰 글씨/큰 버튼" aria-pressed={largeUi} title="큰 글씨/큰 버튼">
+                        <ALargeSmall className="h-4 w-4 md:h-5 md:w-5" />
+                     </Button>
+                  </div>
+               </div>
+            </nav>
          ) : null}
 
+         <PageAnnouncer message={canUseFlipbook ? pageAnnouncement : ''} />
+
+         {status.state === 'error' ? <PdfErrorScreen status={status} onRetry={reload} /> : null}
+
+         {status.state === 'password' ? <PasswordPrompt incorrect={status.incorrect} expected={passwordProtected} onSubmit={submitPassword} onCancel={cancelPassword} /> : null}
+
+         {status.state === 'loading' ? <PdfLoadingScreen status={status} /> : null}
+
          {canUseFlipbook ? (
             <div
                ref={scrollRef}
-               className="no-scrollbar relative flex flex-1 items-center justify-center overflow-auto pt-[84px] p-3 md:p-6"
+               role="region"
+               aria-label="교재 본문"
+               tabIndex={0}
+               className="no-scrollbar relative flex-1 overflow-auto"
                style={{
                   cursor: viewZoom > 1 ? (isPanning ? 'grabbing' : panBySpace ? 'grab' : 'default') : 'default',
                }}
@@ -490,41 +737,124 @@ export default function EbookFlipbook({ pdfUrl, className }: EbookFlipbookProps)
                   setIsPanning(false)
                }}
             >
-               <div className="relative flex items-center justify-center">
-                  <HTMLFlipBook
-                     key={`${sizeKey ?? 'no-size'}-${isNarrow ? 'single' : 'spread'}`}
-                     ref={flipbookRef as unknown as React.Ref<unknown>}
-                     width={Math.round(pageSize.w)}
-                     height={Math.round(pageSize.h)}
-                     startPage={pageIndex}
-                     showCover={false}
-                     usePortrait={isNarrow}
-                     mobileScrollSupport={false}
-                     disableFlipByClick={true}
-                     maxShadowOpacity={0.22}
-                     className="flipbook"
-                     onFlip={(e: { data: number }) => {
-                        setPageIndex(e.data)
-                        pageIndexRef.current = e.data
-                        scheduleRenderRef.current?.()
-                     }}
-                  >
-                     {Array.from({ length: numPages }).map((_, idx) => (
-                        <div key={idx} className="page flex h-full w-full items-center justify-center bg-white dark:bg-zinc-950">
-                           <canvas
-                              ref={(el) => {
-                                 canvasRefs.current[idx] = el
-                              }}
-                              className="block h-full w-full rounded-sm"
-                           />
-                        </div>
-                     ))}
-                  </HTMLFlipBook>
+               {/* 책이 화면보다 커져도 왼쪽/위쪽까지 스크롤되도록 내용 크기만큼 넓힘 */}
+               <div
+                  ref={contentRef}
+                  className="flex min-h-full w-max min-w-full items-center justify-center"
+                  style={{ paddingTop: contentPad.top, paddingRight: contentPad.right, paddingBottom: contentPad.bottom, paddingLeft: contentPad.left }}
+               >
+                  <div className="relative flex items-center justify-center">
+                     <HTMLFlipBook
+                        key={flipbookKey}
+                        ref={flipbookRef as unknown as React.Ref<unknown>}
+                        width={Math.round(pageSize.w)}
+                        height={Math.round(pageSize.h)}
+                        startPage={pageIndex}
+                        showCover={false}
+                        usePortrait={isNarrow}
+                        mobileScrollSupport={false}
+                        disableFlipByClick={true}
+                        maxShadowOpacity={0.22}
+                        className="flipbook"
+                        onInit={() => setFlipbookReady(true)}
+                        onFlip={(e: { data: number }) => {
+                           setPageIndex(e.data)
+                        }}
+                     >
+                        {Array.from({ length: numPages }).map((_, idx) => (
+                           <div key={idx} role="group" aria-label={`${idx + 1}쪽`} className="page flex h-full w-full items-center justify-center bg-white dark:bg-zinc-950">
+                              {shouldMountCanvas(idx) ? <canvas ref={canvasRef(idx)} className="block h-full w-full rounded-sm" aria-hidden="true" /> : null}
+                              {doc && shouldMountCanvas(idx) ? <PageTextLayer doc={doc} pageIndex={idx} pageSize={pageSize} selectable={true} /> : null}
+                              {doc && shouldMountCanvas(idx) ? <PageLinkLayer doc={doc} pageIndex={idx} onActivate={openPageLink} interactive={true} /> : null}
+                              {notes.highlightsByPage.has(idx) ? <NoteHighlights highlights={notes.highlightsByPage.get(idx) ?? []} /> : null}
+                              {search.highlightsByPage.has(idx) ? <PageHighlights highlights={search.highlightsByPage.get(idx) ?? []} /> : null}
+                              {readAloud.highlight?.pageIndex === idx ? <SpeechHighlight rects={readAloud.highlight.rects} /> : null}
+                           </div>
+                        ))}
+                     </HTMLFlipBook>
+                  </div>
                </div>
             </div>
          ) : null}
 
          {/* 렌더링 진행은 어르신 UI에서 방해되지 않게 숨김(콘솔로만) */}
+
+         {showThumbs && !presentation.active && thumbnails && pageRatio && numPages > 0 ? (
+            <div className="fixed bottom-0 left-0 right-0 z-10 border-t border-zinc-200 bg-white/95 px-3 py-2 backdrop-blur dark:border-zinc-800 dark:bg-zinc-950/90" style={{ height: thumbsH }}>
+               <ThumbnailNavigator
+                  renderer={thumbnails}
+                  numPages={numPages}
+                  pageRatio={pageRatio}
+                  currentPages={isNarrow ? [pageIndex] : [pageIndex, pageIndex + 1]}
+                  layout="strip"
+                  onSelect={goToPage}
+                  className="h-full w-full"
+               />
+            </div>
+         ) : null}
+
+         {openPanel === 'toc' && tocItems.length > 0 ? (
+            <SidePanel title="목차" onClose={() => setOpenPanel(null)}>
+               <TocList items={tocItems} activeItem={activeTocItem} onSelect={goToPage} />
+            </SidePanel>
+         ) : null}
+
+         {openPanel === 'search' ? (
+            <SidePanel title="검색" onClose={() => setOpenPanel(null)}>
+               <SearchPanel
+                  search={search}
+                  onSelect={(hit) => {
+                     search.setActiveHit(hit)
+                     goToPage(hit.pageIndex)
+                  }}
+               />
+            </SidePanel>
+         ) : null}
+
+         {openPanel === 'bookmarks' ? (
+            <SidePanel title="책갈피" onClose={() => setOpenPanel(null)}>
+               <BookmarkPanel bookmarks={bookmarks} currentPageIndex={pageIndex} onSelect={goToPage} />
+            </SidePanel>
+         ) : null}
+
+         {openPanel === 'notes' ? (
+            <SidePanel
+               title="내 메모"
+               onClose={() => {
+                  setOpenPanel(null)
+                  setFocusNoteId(null)
+               }}
+            >
+               <NotesPanel notes={notes} currentPageIndex={pageIndex} onSelect={goToPage} focusId={focusNoteId} />
+            </SidePanel>
+         ) : null}
+
+         {openDialog === 'go-to-page' && canUseFlipbook ? <GoToPageDialog currentPageIndex={pageIndex} numPages={numPages} onGo={goToPage} onClose={() => setOpenDialog(null)} /> : null}
+
+         {openDialog === 'shortcuts' ? <ShortcutHelp onClose={() => setOpenDialog(null)} /> : null}
+
+         {openDialog === 'print' && doc ? (
+            <PrintDialog
+               doc={doc}
+               pdfUrl={pdfUrl}
+               numPages={numPages}
+               currentPages={isNarrow ? [pageIndex] : [pageIndex, pageIndex + 1]}
+               chapters={tocChapters(tocItems, numPages)}
+               allowPrint={allowPrint}
+               allowDownload={allowDownload}
+               onClose={() => setOpenDialog(null)}
+            />
+         ) : null}
+
+         {textSelection.selection ? <SelectionToolbar selection={textSelection.selection} onHighlight={(color) => highlightSelection(color, false)} onNote={() => highlightSelection('yellow', true)} /> : null}
+
+         {pendingExternalUrl ? (
+            <ExternalLinkPrompt url={pendingExternalUrl} onClose={() => setPendingExternalUrl(null)} />
+         ) : readAloud.notice ? (
+            <ReadAloudNotice message={readAloud.notice} onClose={readAloud.dismissNotice} />
+         ) : resume ? (
+            <ResumePrompt progress={resume} onResume={resumeReading} onDismiss={dismissResume} />
+         ) : null}
       </section>
    )
 }
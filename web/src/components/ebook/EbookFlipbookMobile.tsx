@@ -1,85 +1,124 @@
 'use client'
 
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import React, { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react'
 import HTMLFlipBook from 'react-pageflip'
-import { Loader2 } from 'lucide-react'
+import { X } from 'lucide-react'
 
+import type { BookTocEntry } from '@/lib/books'
+import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import { MobileControls } from './MobileControls'
-
-type PdfDocument = {
-   numPages: number
-   getPage: (pageNumber: number) => Promise<{
-      getViewport: (options: { scale: number }) => { width: number; height: number }
-      render: (params: { canvasContext: CanvasRenderingContext2D; viewport: { width: number; height: number } }) => { promise: Promise<void>; cancel: () => void }
-   }>
-}
-
-type PageFlipApi = {
-   pageFlip: () => {
-      flipNext: () => void
-      flipPrev: () => void
-      turnToPage: (pageIndex: number) => void
-      getCurrentPageIndex: () => number
-   }
-}
-
-function useElementSize<T extends HTMLElement>() {
-   const ref = useRef<T | null>(null)
-   const [size, setSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 })
-
-   useEffect(() => {
-      const el = ref.current
-      if (!el) return
-
-      const ro = new ResizeObserver((entries) => {
-         const cr = entries[0]?.contentRect
-         setSize({ width: cr?.width ?? 0, height: cr?.height ?? 0 })
-      })
-      ro.observe(el)
-      return () => ro.disconnect()
-   }, [])
-
-   return { ref, ...size }
+import { BookmarkPanel } from './BookmarkPanel'
+import { ExternalLinkPrompt } from './ExternalLinkPrompt'
+import { isEditableTarget, shortcutAction } from './keyboardShortcuts'
+import { NotesPanel } from './NotesPanel'
+import { PageAnnouncer } from './PageAnnouncer'
+import { NoteHighlights, PageHighlights, SpeechHighlight } from './PageHighlights'
+import { findPageLinkAt, PageLinkLayer } from './PageLinkLayer'
+import { PageTextLayer } from './PageTextLayer'
+import { PasswordPrompt } from './PasswordPrompt'
+import { PdfErrorScreen } from './PdfErrorScreen'
+import { PdfLoadingScreen } from './PdfLoadingScreen'
+import { PrintDialog } from './PrintDialog'
+import { ReadAloudNotice } from './ReadAloudNotice'
+import { findActiveTocItem, loadOutlineToc, tocChapters, tocFromBookConfig, type TocItem } from './outline'
+import type { NoteColor } from './notes'
+import type { PageLinkTarget } from './pageLinks'
+import { BottomSheet } from './panels'
+import type { PageFlipApi } from './pdfTypes'
+import { ResumePrompt } from './ResumePrompt'
+import { SearchPanel } from './SearchPanel'
+import { SelectionToolbar } from './SelectionToolbar'
+import { ThumbnailNavigator } from './ThumbnailNavigator'
+import { createThumbnailRenderer } from './thumbnails'
+import { TocList } from './TocList'
+import { useBookmarks } from './useBookmarks'
+import { useElementSize } from './useElementSize'
+import { useLargeUi } from './useLargeUi'
+import { useNotes } from './useNotes'
+import { usePageRenderEngine } from './usePageRenderEngine'
+import { readPageIndexFromLocation, usePageUrlSync } from './usePageUrlSync'
+import { usePdfDocument } from './usePdfDocument'
+import { useReadAloud } from './useReadAloud'
+import { useReadingProgress } from './useReadingProgress'
+import { useTextSearch } from './useTextSearch'
+import { useTextSelection } from './useTextSelection'
+import { useTouchGestures, type PinchState } from './useTouchGestures'
+import { useViewerEvents } from './useViewerEvents'
+import type { EbookViewerEvent, EbookViewerHandle } from './viewerApi'
+import { scrollToZoomAnchor, toViewPoint, zoomAnchorAt, type ZoomAnchor } from './zoomAnchor'
+
+const MIN_ZOOM = 0.7
+const MAX_ZOOM = 2.5
+// 두 번 탭했을 때 확대 배율
+const DOUBLE_TAP_ZOOM = 2
+// 책 둘레 여백(p-2). 확대 기준점 계산과 맞아야 함
+const CONTENT_PAD = 8
+
+// 핀치로 정한 배율은 5% 단위로, 100% 근처는 딱 맞춤으로
+const snapZoom = (z: number) => {
+   const clamped = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, z))
+   return Math.abs(clamped - 1) < 0.05 ? 1 : Math.round(clamped * 20) / 20
 }
 
 export type EbookFlipbookProps = {
    pdfUrl: string
+   // PDF에 목차(outline)가 없을 때 보여줄 교재 설정 목차
+   toc?: BookTocEntry[]
+   // 교재 설정상 암호 PDF(비밀번호 입력 안내 문구용)
+   passwordProtected?: boolean
+   // 교재 설정의 인쇄/내려받기 허용 여부
+   allowPrint?: boolean
+   allowDownload?: boolean
+   // false면 도구 막대 없이 책만(교재 삽입용)
+   chrome?: boolean
+   // 다른 사이트 iframe 안: 쪽 이동을 방문 기록에 쌓지 않음(부모 페이지 뒤로 가기 보호)
+   embedded?: boolean
+   ref?: React.Ref<EbookViewerHandle>
+   onViewerEvent?: (event: EbookViewerEvent) => void
    className?: string
 }
 
-export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbookProps) {
+export default function EbookFlipbookMobile({ pdfUrl, toc, passwordProtected = false, allowPrint = true, allowDownload = false, chrome = true, embedded = false, ref, onViewerEvent, className }: EbookFlipbookProps) {
    const { ref: containerRef, width: containerWidth, height: containerHeight } = useElementSize<HTMLDivElement>()
 
    const flipbookRef = useRef<PageFlipApi | null>(null)
-   const canvasRefs = useRef<Array<HTMLCanvasElement | null>>([])
-   const renderedPagesRef = useRef<Set<number>>(new Set())
-   const inflightPagesRef = useRef<Set<number>>(new Set())
-   const renderLoopIdRef = useRef(0)
-   const lastSizeKeyRef = useRef<string | null>(null)
-   const scheduleTimerRef = useRef<number | null>(null)
-   const scheduleRenderRef = useRef<(() => void) | null>(null)
    const pageIndexRef = useRef(0)
    const scrollContainerRef = useRef<HTMLDivElement | null>(null)
+   const contentRef = useRef<HTMLDivElement | null>(null)
+   // 핀치/두 번 탭으로 배율이 바뀔 때 손가락 아래 지점을 유지하기 위한 기준점
+   const zoomAnchorRef = useRef<ZoomAnchor | null>(null)
    const lastNavAtRef = useRef(0)
 
-   const [reloadNonce, setReloadNonce] = useState(0)
-   const [doc, setDoc] = useState<PdfDocument | null>(null)
-   const [numPages, setNumPages] = useState(0)
    const [pageIndex, setPageIndex] = useState(0)
    const [pageSize, setPageSize] = useState<{ w: number; h: number } | null>(null)
-   const [pageRatio, setPageRatio] = useState<number | null>(null)
    const [viewZoom, setViewZoom] = useState(1.0)
+   const [tocItems, setTocItems] = useState<TocItem[]>([])
+   const [openPanel, setOpenPanel] = useState<'toc' | 'search' | 'thumbs' | 'bookmarks' | 'notes' | 'print' | null>(null)
+   // 플립북이 시작 쪽(딥링크 포함)을 펼쳐 놓았는지. 바깥(교재 삽입)에 ready를 알리는 시점
+   const [flipbookReady, setFlipbookReady] = useState(false)
+
+   const { doc, numPages, pageRatio, status, reload, submitPassword, cancelPassword } = usePdfDocument(pdfUrl, {
+      onLoaded: (loaded) => {
+         // 딥링크(?page=37, #p37)가 있으면 해당 페이지에서 시작
+         const linked = readPageIndexFromLocation()
+         const startIndex = linked == null ? 0 : Math.min(loaded.numPages - 1, linked)
+         setPageIndex(startIndex)
+         pageIndexRef.current = startIndex
+         setFlipbookReady(false)
+      },
+   })
 
-   const [status, setStatus] = useState<{ state: 'idle' } | { state: 'loading' } | { state: 'rendering'; rendered: number; total: number } | { state: 'ready' } | { state: 'error'; message: string }>({ state: 'idle' })
+   const { largeUi, toggleLargeUi } = useLargeUi()
 
-   const controlsH = 60
+   // MobileControls 높이(큰 버튼 보기에서는 h-[76px] md:h-[92px]). 막대 없는 삽입 화면은 0
+   const controlsH = !chrome ? 0 : largeUi ? (containerWidth >= 768 ? 92 : 76) : 60
 
    const targetPageSize = useMemo(() => {
       if (!pageRatio) return null
 
-      const padX = 8
-      const padY = 8
+      const padX = CONTENT_PAD
+      const padY = CONTENT_PAD
       const availableW = Math.max(0, containerWidth - padX * 2)
       const availableH = Math.max(0, containerHeight - controlsH - padY * 2)
       if (availableW <= 0 || availableH <= 0) return null
@@ -99,10 +138,8 @@ export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbook
       return `${Math.round(pageSize.w)}x${Math.round(pageSize.h)}`
    }, [pageSize])
 
-   useEffect(() => {
-      if (!targetPageSize) return
-      setPageSize(targetPageSize)
-   }, [targetPageSize])
+   // 컨테이너 측정 전(0px) 등으로 계산이 잠시 null이 되어도 마지막 크기를 유지
+   if (targetPageSize && targetPageSize !== pageSize) setPageSize(targetPageSize)
 
    useEffect(() => {
       pageIndexRef.current = pageIndex
@@ -150,7 +187,6 @@ export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbook
          if (target === curIdx) return
          api.turnToPage(target)
          syncAfterFlip()
-         scheduleRenderRef.current?.()
       },
       [numPages, syncAfterFlip]
    )
@@ -158,211 +194,134 @@ export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbook
    const flipPrev = useCallback(() => navTo('prev'), [navTo])
    const flipNext = useCallback(() => navTo('next'), [navTo])
 
-   useEffect(() => {
-      const el = scrollContainerRef.current
-      if (!el || !pageSize) return
-      requestAnimationFrame(() => {
-         if (viewZoom > 1) {
-            el.scrollLeft = Math.max(0, (el.scrollWidth - el.clientWidth) / 2)
-            el.scrollTop = Math.max(0, (el.scrollHeight - el.clientHeight) / 2)
-         } else {
-            el.scrollTop = 0
-            el.scrollLeft = 0
-         }
-      })
-   }, [viewZoom, pageSize])
+   // 특정 페이지로 바로 이동(딥링크/뒤로 가기 등)
+   const goToPage = useCallback(
+      (targetIndex: number) => {
+         const api = flipbookRef.current?.pageFlip?.()
+         if (!api) return null
+         const target = Math.max(0, Math.min(Math.max(0, numPages - 1), targetIndex))
+         api.turnToPage(target)
+         // 줌 변경과 동시에 호출되면 플립북이 다시 마운트되므로 startPage용 상태를 먼저 맞춤
+         setPageIndex(target)
+         pageIndexRef.current = target
+         syncAfterFlip()
+         return target
+      },
+      [numPages, syncAfterFlip]
+   )
+
+   usePageUrlSync({
+      enabled: numPages > 0,
+      pageIndex,
+      jumpThreshold: embedded ? Infinity : 1,
+      onNavigate: goToPage,
+   })
 
    useEffect(() => {
+      if (!doc) return
       let cancelled = false
-
-      async function load() {
-         setStatus({ state: 'loading' })
-         setDoc(null)
-         setNumPages(0)
-         setPageIndex(0)
-         setPageSize(null)
-         setPageRatio(null)
-
-         try {
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore
-            const pdfjs = (await import(/* webpackIgnore: true */ '/pdfjs/pdf.mjs')) as unknown as {
-               getDocument: typeof import('pdfjs-dist').getDocument
-               GlobalWorkerOptions: { workerSrc: string }
-            }
-
-            pdfjs.GlobalWorkerOptions.workerSrc = '/pdfjs/pdf.worker.min.mjs'
-
-            const task = pdfjs.getDocument({ url: pdfUrl })
-            const loaded = (await task.promise) as unknown as PdfDocument
-            if (cancelled) return
-
-            setDoc(loaded)
-            setNumPages(loaded.numPages)
-
-            const first = await loaded.getPage(1)
-            if (cancelled) return
-            const vp = first.getViewport({ scale: 1 })
-            const ratio = vp.width > 0 ? vp.height / vp.width : null
-            setPageRatio(ratio)
-            setStatus({ state: 'ready' })
-         } catch (e) {
-            if (cancelled) return
-            // eslint-disable-next-line no-console
-            console.error('[EbookFlipbook] pdf.js load error:', e)
-            const message = e instanceof Error ? e.message : 'PDF를 불러오지 못했습니다.'
-            setStatus({ state: 'error', message })
-         }
-      }
-
-      load()
+      // PDF 목차(outline)를 우선 사용하고, 없으면 교재 설정 목차로 대체
+      void loadOutlineToc(doc).then((items) => {
+         if (cancelled) return
+         setTocItems(items.length > 0 ? items : tocFromBookConfig(toc ?? []))
+      })
       return () => {
          cancelled = true
       }
-   }, [pdfUrl, reloadNonce])
-
-   useEffect(() => {
-      if (!doc) return
-      if (!pageSize) return
-      if (numPages <= 0) return
-
-      const pdfDoc = doc
-      const size = pageSize
-      const loopId = ++renderLoopIdRef.current
-      const renderTasks: Array<{ cancel: () => void } | null> = new Array(numPages).fill(null)
-      let cancelled = false
+   }, [doc, toc])
 
-      const currentSizeKey = `${Math.round(size.w)}x${Math.round(size.h)}@${viewZoom.toFixed(2)}`
-      if (lastSizeKeyRef.current !== currentSizeKey) {
-         renderedPagesRef.current.clear()
-         inflightPagesRef.current.clear()
-         lastSizeKeyRef.current = currentSizeKey
-
-         for (const c of canvasRefs.current) {
-            if (!c) continue
-            c.dataset.sizeKey = currentSizeKey
-            const ctx = c.getContext('2d')
-            if (ctx) ctx.clearRect(0, 0, c.width, c.height)
-         }
-      }
+   const activeTocItem = useMemo(() => findActiveTocItem(tocItems, pageIndex), [tocItems, pageIndex])
 
-      const waitForCanvas = async (index: number, maxFrames = 180) => {
-         for (let i = 0; i < maxFrames; i++) {
-            if (cancelled) return null
-            if (renderLoopIdRef.current !== loopId) return null
-            const c = canvasRefs.current[index]
-            if (c) return c
-            await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()))
-         }
-         return null
-      }
+   const search = useTextSearch(doc)
 
-      const renderOne = async (pageNo: number) => {
-         if (cancelled) return
-         if (pageNo < 1 || pageNo > numPages) return
-         if (renderLoopIdRef.current !== loopId) return
+   const readAloud = useReadAloud({
+      getPageText: search.getPageText,
+      numPages,
+      visiblePages: [pageIndex],
+      onTurnTo: goToPage,
+   })
 
-         const renderedPages = renderedPagesRef.current
-         const inflightPages = inflightPagesRef.current
-         if (renderedPages.has(pageNo) || inflightPages.has(pageNo)) return
-         inflightPages.add(pageNo)
+   const thumbnails = useMemo(() => (doc ? createThumbnailRenderer(doc) : null), [doc])
+   useEffect(() => () => thumbnails?.dispose(), [thumbnails])
 
-         const baseDpr = Math.max(1, window.devicePixelRatio || 1)
-         const dpr = Math.min(3, baseDpr * Math.min(1.6, viewZoom))
+   const bookmarks = useBookmarks({ pdfUrl, numPages })
 
-         const canvas = await waitForCanvas(pageNo - 1)
-         if (!canvas) {
-            inflightPages.delete(pageNo)
-            return
-         }
+   const notes = useNotes({ pdfUrl, enabled: numPages > 0 })
 
-         const page = await pdfDoc.getPage(pageNo)
-         if (cancelled) {
-            inflightPages.delete(pageNo)
-            return
-         }
+   // 글자 고르기: 탭 넘김 오버레이를 끄고 길게 눌러 글자를 골라 형광펜·메모·복사
+   const [selecting, setSelecting] = useState(false)
+   const textSelection = useTextSelection(selecting && numPages > 0)
+   const [focusNoteId, setFocusNoteId] = useState<string | null>(null)
 
-         const vp1 = page.getViewport({ scale: 1 })
-         const scale = size.w / vp1.width
-         const viewport = page.getViewport({ scale: scale * dpr })
+   const toggleSelecting = () => {
+      if (selecting) window.getSelection()?.removeAllRanges()
+      setSelecting((v) => !v)
+   }
 
-         if (canvas.dataset.sizeKey !== currentSizeKey) {
-            canvas.dataset.sizeKey = currentSizeKey
-         }
+   const highlightSelection = (color: NoteColor, withNote: boolean) => {
+      const sel = textSelection.selection
+      if (!sel) return
+      const note = notes.addHighlight(sel.pageIndex, sel.highlight, color)
+      textSelection.clear()
+      if (!withNote) return
+      setFocusNoteId(note.id)
+      setOpenPanel('notes')
+   }
 
-         const nextW = Math.floor(viewport.width)
-         const nextH = Math.floor(viewport.height)
-         if (canvas.width !== nextW) canvas.width = nextW
-         if (canvas.height !== nextH) canvas.height = nextH
-         if (canvas.style.width !== `${size.w}px`) canvas.style.width = `${size.w}px`
-         if (canvas.style.height !== `${size.h}px`) canvas.style.height = `${size.h}px`
+   const [pendingExternalUrl, setPendingExternalUrl] = useState<string | null>(null)
 
-         const ctx = canvas.getContext('2d', { alpha: false })
-         if (!ctx) {
-            inflightPages.delete(pageNo)
-            return
-         }
+   // 내부 링크는 바로 넘기고, 외부 주소는 확인 후 새 탭으로
+   const openPageLink = (target: PageLinkTarget) => {
+      if (target.kind === 'internal') goToPage(target.pageIndex)
+      else setPendingExternalUrl(target.url)
+   }
 
-         try {
-            const task = page.render({ canvasContext: ctx, viewport })
-            renderTasks[pageNo - 1] = task
-            await task.promise
-            renderedPages.add(pageNo)
-         } catch (e) {
-            const name = (e as any)?.name
-            const msg = (e as any)?.message
-            if (name === 'RenderingCancelledException' || (typeof msg === 'string' && msg.includes('Rendering cancelled'))) {
-               // noop
-            } else {
-               // eslint-disable-next-line no-console
-               console.error(`[EbookFlipbook] render error (page ${pageNo}):`, e)
-            }
-         } finally {
-            inflightPages.delete(pageNo)
-         }
-      }
+   const { resume, dismissResume } = useReadingProgress({ pdfUrl, enabled: numPages > 0, pageIndex, zoom: viewZoom })
 
-      const renderWindow = async () => {
-         const current = Math.max(0, Math.min(numPages - 1, pageIndexRef.current))
-         const currentPageNo = current + 1
-         const want = new Set<number>()
-
-         const start = Math.max(1, currentPageNo - 2)
-         const end = Math.min(numPages, currentPageNo + 4)
-         for (let p = start; p <= end; p++) want.add(p)
-
-         const renderedPages = renderedPagesRef.current
-         // 진행률 UI를 표시하지 않으므로(현재는 로딩/에러만 노출), 과도한 setState를 줄여 모바일 성능 최적화
-         setStatus({ state: 'rendering', rendered: renderedPages.size, total: numPages })
-         for (const p of want) {
-            if (cancelled) return
-            // eslint-disable-next-line no-await-in-loop
-            await renderOne(p)
-         }
+   const resumeReading = () => {
+      if (!resume) return
+      setViewZoom(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, resume.zoom)))
+      goToPage(resume.pageIndex)
+      dismissResume()
+   }
 
-         if (renderedPages.has(currentPageNo) || renderedPages.has(currentPageNo + 1) || renderedPages.has(currentPageNo - 1)) {
-            setStatus({ state: 'ready' })
+   useEffect(() => {
+      const el = scrollContainerRef.current
+      if (!el || !pageSize) return
+      const anchor = zoomAnchorRef.current
+      zoomAnchorRef.current = null
+      let frame = 0
+      let tries = 0
+      const apply = () => {
+         // 핀치 중 임시로 키워 보이던 화면은 새 크기로 다시 그린 뒤 원래대로
+         if (contentRef.current) contentRef.current.style.transform = ''
+         if (viewZoom > 1 && anchor) {
+            // 플립북이 새 크기로 자리 잡기 전이면 다음 프레임에 다시 맞춤
+            if (!scrollToZoomAnchor(el, pageSize, CONTENT_PAD, anchor) && ++tries < 4) frame = requestAnimationFrame(apply)
+         } else if (viewZoom > 1) {
+            el.scrollLeft = Math.max(0, (el.scrollWidth - el.clientWidth) / 2)
+            el.scrollTop = Math.max(0, (el.scrollHeight - el.clientHeight) / 2)
+         } else {
+            el.scrollTop = 0
+            el.scrollLeft = 0
          }
       }
+      frame = requestAnimationFrame(apply)
+      return () => cancelAnimationFrame(frame)
+   }, [viewZoom, pageSize])
 
-      const schedule = () => {
-         if (cancelled) return
-         if (scheduleTimerRef.current) window.clearTimeout(scheduleTimerRef.current)
-         scheduleTimerRef.current = window.setTimeout(() => {
-            void renderWindow()
-         }, 160)
-      }
-      scheduleRenderRef.current = schedule
-
-      schedule()
+   const flipbookKey = `${sizeKey ?? 'no-size'}-mobile-${viewZoom.toFixed(2)}`
 
-      return () => {
-         cancelled = true
-         scheduleRenderRef.current = null
-         if (scheduleTimerRef.current) window.clearTimeout(scheduleTimerRef.current)
-         for (const t of renderTasks) t?.cancel?.()
-      }
-   }, [doc, numPages, pageSize, viewZoom])
+   const { canvasRef, shouldMountCanvas } = usePageRenderEngine({
+      doc,
+      pageSize,
+      viewZoom,
+      pageIndex,
+      before: 2,
+      after: 4,
+      keepWindow: 6,
+      layoutKey: flipbookKey,
+   })
 
    const canUseFlipbook = status.state !== 'error' && numPages > 0 && pageSize && pageSize.w > 10 && pageSize.h > 10
 
@@ -372,6 +331,18 @@ export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbook
       requestAnimationFrame(() => syncPageIndexFromFlipbook())
    }, [canUseFlipbook, syncPageIndexFromFlipbook])
 
+   useImperativeHandle(
+      ref,
+      () => ({
+         goToPage: (page: number) => goToPage(Math.round(page) - 1),
+         setZoom: (zoom: number) => setViewZoom(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, Math.round(zoom * 100) / 100))),
+         getState: () => ({ page: pageIndex + 1, numPages, zoom: viewZoom }),
+      }),
+      [goToPage, numPages, pageIndex, viewZoom]
+   )
+
+   useViewerEvents({ ready: !!canUseFlipbook && flipbookReady, status, pageIndex, numPages, zoom: viewZoom, onEvent: onViewerEvent })
+
    const currentPageLabel = useMemo(() => {
       const total = Math.max(1, numPages)
       const current = Math.min(total, Math.max(1, pageIndex + 1))
@@ -379,14 +350,56 @@ export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbook
    }, [pageIndex, numPages])
 
    const zoomLabel = `${Math.round(viewZoom * 100)}%`
-   const canZoomOut = viewZoom > 0.7
-   const canZoomIn = viewZoom < 2.5
+   const canZoomOut = viewZoom > MIN_ZOOM
+   const canZoomIn = viewZoom < MAX_ZOOM
+
+   // 탭 오버레이는 화면 낭독기에서 숨기므로, 키보드(블루투스 키보드·스위치 기기)로도 넘길 수 있게
+   useEffect(() => {
+      if (!canUseFlipbook || openPanel) return
+      const handleKeyDown = (e: KeyboardEvent) => {
+         if (e.defaultPrevented || isEditableTarget(e.target)) return
+         switch (shortcutAction(e, { zoomed: viewZoom > 1 })) {
+            case 'prev':
+               flipPrev()
+               break
+            case 'next':
+               flipNext()
+               break
+            case 'first':
+               goToPage(0)
+               break
+            case 'last':
+               goToPage(numPages - 1)
+               break
+            case 'zoom-in':
+               setViewZoom((z) => Math.min(MAX_ZOOM, Math.round((z + 0.1) * 10) / 10))
+               break
+            case 'zoom-out':
+               setViewZoom((z) => Math.max(MIN_ZOOM, Math.round((z - 0.1) * 10) / 10))
+               break
+            case 'zoom-reset':
+               setViewZoom(1)
+               break
+            default:
+               return
+         }
+         e.preventDefault()
+      }
+      window.addEventListener('keydown', handleKeyDown)
+      return () => window.removeEventListener('keydown', handleKeyDown)
+   }, [canUseFlipbook, flipNext, flipPrev, goToPage, numPages, openPanel, viewZoom])
 
    // 모바일 입력 제어: globals.css에서 `.flipbook { pointer-events: none }` 처리되어 있어
    // 실제 입력은 `.flipbook-overlay`에서 받아 좌/우 탭(마우스 클릭 포함)으로 페이지를 넘긴다.
    const handleOverlayClick = useCallback(
-      (clientX: number) => {
+      (clientX: number, clientY: number) => {
          if (!canUseFlipbook) return
+         // 페이지 속 링크가 좌/우 탭 영역보다 우선(확대 상태에서도 동작)
+         const link = containerRef.current ? findPageLinkAt(containerRef.current, clientX, clientY) : null
+         if (link) {
+            link.click()
+            return
+         }
          // 확대 상태에서는 탭 넘김 비활성(패닝/스크롤 우선)
          if (viewZoom > 1) return
          const viewportWidth = window.innerWidth || 1
@@ -394,64 +407,127 @@ export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbook
          if (isLeftSide) flipPrev()
          else flipNext()
       },
-      [canUseFlipbook, flipNext, flipPrev, viewZoom]
+      [canUseFlipbook, containerRef, flipNext, flipPrev, viewZoom]
    )
 
-   return (
-      <section ref={containerRef} className={cn('relative flex h-dvh w-dvw flex-col overflow-hidden bg-zinc-50 text-zinc-950 dark:bg-black dark:text-zinc-50', className)}>
-         <div data-controls className="relative z-20">
-            <MobileControls
-               currentPageLabel={currentPageLabel}
-               zoomLabel={zoomLabel}
-               canZoomOut={canZoomOut}
-               canZoomIn={canZoomIn}
-               canPrevPage={!!canUseFlipbook && pageIndex > 0}
-               canNextPage={!!canUseFlipbook && pageIndex < numPages - 1}
-               onPrevPage={flipPrev}
-               onNextPage={flipNext}
-               onZoomOut={() => setViewZoom((z) => Math.max(0.7, Math.round((z - 0.1) * 10) / 10))}
-               onZoomIn={() => setViewZoom((z) => Math.min(2.5, Math.round((z + 0.1) * 10) / 10))}
-            />
-         </div>
+   // 핀치 중에는 다시 그리지 않고 화면만 키워 보여줌(손가락 가운데 기준). 손을 떼면 실제 배율로 확정
+   const previewPinch = ({ scale, origin, center }: PinchState) => {
+      const el = scrollContainerRef.current
+      const content = contentRef.current
+      if (!el || !content) return
+      const s = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, viewZoom * scale)) / viewZoom
+      const from = toViewPoint(el, origin.x, origin.y)
+      content.style.transformOrigin = `${el.scrollLeft + from.x}px ${el.scrollTop + from.y}px`
+      content.style.transform = `translate(${center.x - origin.x}px, ${center.y - origin.y}px) scale(${s})`
+   }
 
-         {status.state === 'error' ? (
-            <div className="flex flex-1 items-center justify-center p-4">
-               <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">{status.message}</div>
-            </div>
-         ) : null}
+   const commitZoom = (nextZoom: number, from: { x: number; y: number }, to: { x: number; y: number }) => {
+      const el = scrollContainerRef.current
+      if (!el || !pageSize) return
+      if (nextZoom === viewZoom) {
+         if (contentRef.current) contentRef.current.style.transform = ''
+         return
+      }
+      zoomAnchorRef.current = nextZoom > 1 ? zoomAnchorAt(el, pageSize, CONTENT_PAD, toViewPoint(el, from.x, from.y), toViewPoint(el, to.x, to.y)) : null
+      setViewZoom(nextZoom)
+   }
+
+   // 글자 고르기 중에는 page-flip이 터치/마우스로 넘김을 시작하지 않게 캡처 단계에서 막음(글자 선택은 브라우저 기본 동작이라 그대로)
+   useEffect(() => {
+      const el = contentRef.current
+      if (!el || !selecting || !canUseFlipbook) return
+      const stop = (e: Event) => e.stopPropagation()
+      el.addEventListener('touchstart', stop, true)
+      el.addEventListener('mousedown', stop, true)
+      return () => {
+         el.removeEventListener('touchstart', stop, true)
+         el.removeEventListener('mousedown', stop, true)
+      }
+   }, [selecting, canUseFlipbook])
+
+   useTouchGestures(scrollContainerRef, {
+      enabled: !!canUseFlipbook && !selecting,
+      swipe: viewZoom <= 1,
+      onTap: (point) => handleOverlayClick(point.x, point.y),
+      // 맞춤 화면 ↔ 2배(두 번 탭한 곳 기준)
+      onDoubleTap: (point) => commitZoom(viewZoom > 1 ? 1 : DOUBLE_TAP_ZOOM, point, point),
+      // 왼쪽으로 밀면 다음 장, 오른쪽으로 밀면 이전 장
+      onSwipe: (direction) => (direction === 'left' ? flipNext() : flipPrev()),
+      onPinchMove: previewPinch,
+      onPinchEnd: ({ scale, origin, center }) => commitZoom(snapZoom(viewZoom * scale), origin, center),
+   })
 
-         {status.state === 'loading' ? (
-            <div className="flex flex-1 items-center justify-center gap-3 text-base text-zinc-700 dark:text-zinc-200">
-               <Loader2 className="animate-spin" />
-               PDF 불러오는 중…
+   return (
+      <section ref={containerRef} data-large-ui={largeUi || undefined} data-no-print={!allowPrint || undefined} className={cn('relative flex h-dvh w-dvw flex-col overflow-hidden bg-zinc-50 text-zinc-950 dark:bg-black dark:text-zinc-50', className)}>
+         {chrome ? (
+            <div data-controls className="relative z-20">
+               <MobileControls
+                  currentPageLabel={currentPageLabel}
+                  zoomLabel={zoomLabel}
+                  canZoomOut={canZoomOut}
+                  canZoomIn={canZoomIn}
+                  canPrevPage={!!canUseFlipbook && pageIndex > 0}
+                  canNextPage={!!canUseFlipbook && pageIndex < numPages - 1}
+                  onPrevPage={flipPrev}
+                  onNextPage={flipNext}
+                  onZoomOut={() => setViewZoom((z) => Math.max(MIN_ZOOM, Math.round((z - 0.1) * 10) / 10))}
+                  onZoomIn={() => setViewZoom((z) => Math.min(MAX_ZOOM, Math.round((z + 0.1) * 10) / 10))}
+                  onOpenToc={tocItems.length > 0 ? () => setOpenPanel('toc') : undefined}
+                  onOpenSearch={doc ? () => setOpenPanel('search') : undefined}
+                  onOpenThumbnails={doc ? () => setOpenPanel('thumbs') : undefined}
+                  isBookmarked={bookmarks.isBookmarked(pageIndex)}
+                  onToggleBookmark={canUseFlipbook ? () => bookmarks.toggle(pageIndex) : undefined}
+                  onOpenBookmarks={doc ? () => setOpenPanel('bookmarks') : undefined}
+                  onOpenNotes={doc ? () => setOpenPanel('notes') : undefined}
+                  onOpenPrint={canUseFlipbook && (allowPrint || allowDownload) ? () => setOpenPanel('print') : undefined}
+                  printLabel={allowPrint ? '인쇄' : '내려받기'}
+                  readAloud={canUseFlipbook ? readAloud : undefined}
+                  selecting={selecting}
+                  onToggleSelecting={canUseFlipbook ? toggleSelecting : undefined}
+                  largeUi={largeUi}
+                  onToggleLargeUi={toggleLargeUi}
+               />
             </div>
          ) : null}
 
+         <PageAnnouncer message={canUseFlipbook ? `${Math.min(numPages, pageIndex + 1)}쪽, 전체 ${numPages}쪽` : ''} />
+
+         {status.state === 'error' ? <PdfErrorScreen status={status} onRetry={reload} /> : null}
+
+         {status.state === 'password' ? <PasswordPrompt incorrect={status.incorrect} expected={passwordProtected} onSubmit={submitPassword} onCancel={cancelPassword} /> : null}
+
+         {status.state === 'loading' ? <PdfLoadingScreen status={status} /> : null}
+
          {canUseFlipbook ? (
             <div
                ref={scrollContainerRef}
-               className="no-scrollbar relative flex-1 overflow-auto"
+               role="region"
+               aria-label="교재 본문"
+               tabIndex={0}
+               className={cn('flipbook-touch no-scrollbar relative flex-1 overflow-auto', selecting && 'flipbook-selecting')}
                style={{
-                  touchAction: viewZoom > 1 ? 'pan-x pan-y' : 'manipulation',
+                  // 확대 중 한 손가락은 스크롤, 그 밖의 터치(핀치/밀기/탭)는 useTouchGestures에서 처리
+                  touchAction: viewZoom > 1 || selecting ? 'pan-x pan-y' : 'none',
                }}
             >
-               <div className="relative flex min-h-full items-center justify-center p-2">
+               {/* 책이 화면보다 커져도 왼쪽/위쪽까지 스크롤되도록 내용 크기만큼 넓힘 */}
+               <div ref={contentRef} className="relative flex min-h-full w-max min-w-full items-center justify-center p-2">
                   {/* 모바일 입력 오버레이: CSS(.flipbook-overlay)와 짝이 맞아야 함 */}
                   <div
                      className="flipbook-overlay"
                      aria-hidden="true"
                      onPointerUp={(e) => {
-                        // 모바일/데스크톱 모두 안정적으로 받기 위해 pointer도 처리
-                        if (e.pointerType === 'touch' || e.pointerType === 'mouse' || e.pointerType === 'pen') {
+                        // 터치는 useTouchGestures(두 번 탭 구분)에서, 마우스/펜은 여기서 바로 처리
+                        if (e.pointerType === 'mouse' || e.pointerType === 'pen') {
                            e.preventDefault()
                            e.stopPropagation()
-                           handleOverlayClick(e.clientX)
+                           handleOverlayClick(e.clientX, e.clientY)
                         }
                      }}
                   />
 
                   <HTMLFlipBook
-                     key={`${sizeKey ?? 'no-size'}-mobile-${viewZoom.toFixed(2)}`}
+                     key={flipbookKey}
                      ref={flipbookRef as unknown as React.Ref<unknown>}
                      width={Math.round(pageSize.w)}
                      height={Math.round(pageSize.h)}
@@ -462,27 +538,133 @@ export default function EbookFlipbookMobile({ pdfUrl, className }: EbookFlipbook
                      disableFlipByClick={true}
                      maxShadowOpacity={0.0}
                      className="flipbook"
+                     onInit={() => setFlipbookReady(true)}
                      onFlip={(e: { data: number }) => {
                         setPageIndex(e.data)
                         pageIndexRef.current = e.data
-                        scheduleRenderRef.current?.()
                         syncAfterFlip()
                      }}
                   >
                      {Array.from({ length: numPages }).map((_, idx) => (
-                        <div key={idx} className="page flex h-full w-full items-center justify-center bg-white dark:bg-zinc-950">
-                           <canvas
-                              ref={(el) => {
-                                 canvasRefs.current[idx] = el
-                              }}
-                              className="block h-full w-full rounded-sm"
-                           />
+                        <div key={idx} role="group" aria-label={`${idx + 1}쪽`} className="page flex h-full w-full items-center justify-center bg-white dark:bg-zinc-950">
+                           {shouldMountCanvas(idx) ? <canvas ref={canvasRef(idx)} className="block h-full w-full rounded-sm" aria-hidden="true" /> : null}
+                           {doc && shouldMountCanvas(idx) ? <PageTextLayer doc={doc} pageIndex={idx} pageSize={pageSize} selectable={selecting} /> : null}
+                           {doc && shouldMountCanvas(idx) ? <PageLinkLayer doc={doc} pageIndex={idx} onActivate={openPageLink} interactive={false} /> : null}
+                           {notes.highlightsByPage.has(idx) ? <NoteHighlights highlights={notes.highlightsByPage.get(idx) ?? []} /> : null}
+                           {search.highlightsByPage.has(idx) ? <PageHighlights highlights={search.highlightsByPage.get(idx) ?? []} /> : null}
+                           {readAloud.highlight?.pageIndex === idx ? <SpeechHighlight rects={readAloud.highlight.rects} /> : null}
                         </div>
                      ))}
                   </HTMLFlipBook>
                </div>
             </div>
          ) : null}
+
+         {openPanel === 'thumbs' && thumbnails && pageRatio && numPages > 0 ? (
+            <div role="dialog" aria-modal="true" aria-label="페이지 모아보기" className="fixed inset-0 z-40 flex flex-col bg-zinc-50 dark:bg-black">
+               <div className="flex items-center justify-between border-b border-zinc-200 bg-white px-4 py-2 dark:border-zinc-800 dark:bg-zinc-950">
+                  <h2 className="text-base font-semibold">페이지 모아보기</h2>
+                  <Button variant="ghost" className="h-10 w-10 p-0" onClick={() => setOpenPanel(null)} aria-label="닫기">
+                     <X className="h-5 w-5" />
+                  </Button>
+               </div>
+               <ThumbnailNavigator
+                  renderer={thumbnails}
+                  numPages={numPages}
+                  pageRatio={pageRatio}
+                  currentPages={[pageIndex]}
+                  layout="grid"
+                  onSelect={(idx) => {
+                     setOpenPanel(null)
+                     goToPage(idx)
+                  }}
+                  className="min-h-0 flex-1 p-3"
+               />
+            </div>
+         ) : null}
+
+         {openPanel === 'toc' && tocItems.length > 0 ? (
+            <BottomSheet title="목차" onClose={() => setOpenPanel(null)}>
+               <TocList
+                  items={tocItems}
+                  activeItem={activeTocItem}
+                  onSelect={(idx) => {
+                     setOpenPanel(null)
+                     goToPage(idx)
+                  }}
+               />
+            </BottomSheet>
+         ) : null}
+
+         {openPanel === 'search' ? (
+            <BottomSheet title="검색" onClose={() => setOpenPanel(null)}>
+               <SearchPanel
+                  search={search}
+                  onSelect={(hit) => {
+                     // 결과를 고르면 시트를 닫고 하이라이트된 페이지를 보여줌
+                     setOpenPanel(null)
+                     search.setActiveHit(hit)
+                     goToPage(hit.pageIndex)
+                  }}
+               />
+            </BottomSheet>
+         ) : null}
+
+         {openPanel === 'bookmarks' ? (
+            <BottomSheet title="책갈피" onClose={() => setOpenPanel(null)}>
+               <BookmarkPanel
+                  bookmarks={bookmarks}
+                  currentPageIndex={pageIndex}
+                  onSelect={(idx) => {
+                     setOpenPanel(null)
+                     goToPage(idx)
+                  }}
+               />
+            </BottomSheet>
+         ) : null}
+
+         {openPanel === 'notes' ? (
+            <BottomSheet
+               title="내 메모"
+               onClose={() => {
+                  setOpenPanel(null)
+                  setFocusNoteId(null)
+               }}
+            >
+               <NotesPanel
+                  notes={notes}
+                  currentPageIndex={pageIndex}
+                  onSelect={(idx) => {
+                     setOpenPanel(null)
+                     goToPage(idx)
+                  }}
+                  focusId={focusNoteId}
+               />
+            </BottomSheet>
+         ) : null}
+
+         {openPanel === 'print' && doc ? (
+            <PrintDialog
+               doc={doc}
+               pdfUrl={pdfUrl}
+               numPages={numPages}
+               currentPages={[pageIndex]}
+               chapters={tocChapters(tocItems, numPages)}
+               allowPrint={allowPrint}
+               allowDownload={allowDownload}
+               onClose={() => setOpenPanel(null)}
+            />
+         ) : null}
+
+         {textSelection.selection ? <SelectionToolbar selection={textSelection.selection} onHighlight={(color) => highlightSelection(color, false)} onNote={() => highlightSelection('yellow', true)} /> : null}
+
+         {pendingExternalUrl ? (
+            <ExternalLinkPrompt url={pendingExternalUrl} onClose={() => setPendingExternalUrl(null)} />
+         ) : readAloud.notice ? (
+            <ReadAloudNotice message={readAloud.notice} onClose={readAloud.dismissNotice} />
+         ) : resume ? (
+            <ResumePrompt progress={resume} onResume={resumeReading} onDismiss={dismissResume} />
+         ) : null}
       </section>
    )
 }
@@ -0,0 +1,31 @@
+import { ExternalLink, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface ExternalLinkPromptProps {
+   url: string
+   onClose: () => void
+}
+
+// 교재 속 외부 주소는 바로 열지 않고 한 번 더 확인(잘못 눌러 책을 벗어나는 일 방지)
+export function ExternalLinkPrompt({ url, onClose }: ExternalLinkPromptProps) {
+   const open = () => {
+      window.open(url, '_blank', 'noopener,noreferrer')
+      onClose()
+   }
+
+   return (
+      <div role="dialog" aria-label="외부 링크 열기" className="fixed bottom-4 left-1/2 z-40 flex w-[calc(100%-2rem)] max-w-md -translate-x-1/2 items-center gap-3 rounded-lg border border-zinc-200 bg-white p-3 shadow-lg dark:border-zinc-800 dark:bg-zinc-950 md:p-4">
+         <ExternalLink className="h-5 w-5 shrink-0 text-zinc-500" />
+         <div className="min-w-0 flex-1 text-sm md:text-base">
+            <div className="font-semibold">새 탭에서 외부 사이트를 열까요?</div>
+            <div className="truncate text-xs text-zinc-500 md:text-sm">{url}</div>
+         </div>
+         <Button className="h-9 px-3 text-sm md:h-11 md:px-4 md:text-base" onClick={open}>
+            열기
+         </Button>
+         <Button variant="ghost" className="h-9 w-9 p-0 md:h-11 md:w-11" onClick={onClose} aria-label="닫기">
+            <X className="h-4 w-4" />
+         </Button>
+      </div>
+   )
+}
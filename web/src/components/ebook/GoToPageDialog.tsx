@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { CenterDialog } from './panels'
+
+interface GoToPageDialogProps {
+   currentPageIndex: number
+   numPages: number
+   onGo: (pageIndex: number) => void
+   onClose: () => void
+}
+
+// 쪽 번호를 입력해 바로 이동(G 키 / 상단 쪽 번호 누르기)
+export function GoToPageDialog({ currentPageIndex, numPages, onGo, onClose }: GoToPageDialogProps) {
+   const [value, setValue] = useState(String(currentPageIndex + 1))
+   const page = Number(value)
+   const valid = Number.isInteger(page) && page >= 1 && page <= numPages
+
+   return (
+      <CenterDialog title="페이지 이동" onClose={onClose}>
+         <form
+            className="flex flex-col gap-3"
+            onSubmit={(e) => {
+               e.preventDefault()
+               if (!valid) return
+               onGo(page - 1)
+               onClose()
+            }}
+         >
+            <label className="flex items-center gap-2 text-base">
+               <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={numPages}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  onFocus={(e) => e.target.select()}
+                  autoFocus
+                  aria-invalid={value !== '' && !valid}
+                  className="h-12 w-28 rounded-md border border-zinc-200 bg-white px-3 text-base tabular-nums outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus-visible:ring-zinc-700"
+               />
+               <span className="text-zinc-600 dark:text-zinc-400">/ {numPages}쪽</span>
+            </label>
+            {value !== '' && !valid ? <p className="text-sm text-red-700 dark:text-red-300">1부터 {numPages} 사이의 숫자를 넣어 주세요.</p> : null}
+            <Button type="submit" className="h-12 text-base" disabled={!valid}>
+               이동
+            </Button>
+         </form>
+      </CenterDialog>
+   )
+}
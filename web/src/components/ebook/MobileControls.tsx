@@ -1,5 +1,9 @@
-import { ChevronLeft, ChevronRight, Minus, Plus } from 'lucide-react'
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import { ALargeSmall, BookMarked, Bookmark, ChevronLeft, ChevronRight, Download, Highlighter, LayoutGrid, Minus, MoreHorizontal, NotebookPen, Plus, Printer, Search, TableOfContents } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { ReadAloudControls } from './ReadAloudControls'
+import type { ReadAloudState } from './useReadAloud'
 
 interface MobileControlsProps {
    currentPageLabel: string
@@ -12,35 +16,128 @@ interface MobileControlsProps {
    onNextPage: () => void
    onZoomOut: () => void
    onZoomIn: () => void
+   // 목차가 있을 때만 버튼 노출
+   onOpenToc?: () => void
+   onOpenSearch?: () => void
+   onOpenThumbnails?: () => void
+   isBookmarked?: boolean
+   onToggleBookmark?: () => void
+   onOpenBookmarks?: () => void
+   onOpenNotes?: () => void
+   // 글자 고르기: 켜 있는 동안은 탭/밀기로 넘기지 않고 길게 눌러 글자를 고름(형광펜·복사)
+   selecting?: boolean
+   onToggleSelecting?: () => void
+   // 교재 설정에서 인쇄나 내려받기를 허용했을 때만 버튼 노출(인쇄가 막혀 있으면 '내려받기')
+   onOpenPrint?: () => void
+   printLabel?: '인쇄' | '내려받기'
+   // 문서가 준비되면 소리 내어 읽기 버튼 노출
+   readAloud?: ReadAloudState
+   // 큰 글씨/큰 버튼 보기(버튼 크기는 globals.css의 [data-large-ui]에서 키움)
+   largeUi?: boolean
+   onToggleLargeUi?: () => void
 }
 
-export function MobileControls({ currentPageLabel, zoomLabel, canZoomOut, canZoomIn, canPrevPage, canNextPage, onPrevPage, onNextPage, onZoomOut, onZoomIn }: MobileControlsProps) {
+const MENU_ID = 'mobile-tools-menu'
+
+// 상단 바에는 쪽 넘김·쪽 번호·확대/축소만 두고, 나머지 도구는 "더 보기" 메뉴에 글자와 함께 모아 둠
+export function MobileControls({ currentPageLabel, zoomLabel, canZoomOut, canZoomIn, canPrevPage, canNextPage, onPrevPage, onNextPage, onZoomOut, onZoomIn, onOpenToc, onOpenSearch, onOpenThumbnails, isBookmarked = false, onToggleBookmark, onOpenBookmarks, onOpenNotes, selecting = false, onToggleSelecting, onOpenPrint, printLabel = '인쇄', readAloud, largeUi = false, onToggleLargeUi }: MobileControlsProps) {
+   const [menuOpen, setMenuOpen] = useState(false)
+   const navRef = useRef<HTMLElement>(null)
+   const menuButtonRef = useRef<HTMLButtonElement>(null)
+
+   // 메뉴 밖을 누르거나 Esc를 누르면 닫음(Esc면 "더 보기" 버튼으로 포커스를 되돌림)
+   useEffect(() => {
+      if (!menuOpen) return
+      const onPointerDown = (e: PointerEvent) => {
+         if (!navRef.current?.contains(e.target as Node)) setMenuOpen(false)
+      }
+      const onKeyDown = (e: KeyboardEvent) => {
+         if (e.key !== 'Escape') return
+         setMenuOpen(false)
+         menuButtonRef.current?.focus()
+      }
+      window.addEventListener('pointerdown', onPointerDown)
+      window.addEventListener('keydown', onKeyDown)
+      return () => {
+         window.removeEventListener('pointerdown', onPointerDown)
+         window.removeEventListener('keydown', onKeyDown)
+      }
+   }, [menuOpen])
+
+   const menuItem = (label: string, icon: ReactNode, onClick: () => void, pressed?: boolean) => (
+      <Button
+         variant={pressed ? 'default' : 'ghost'}
+         className="h-12 justify-start gap-3 px-3 text-base"
+         onClick={() => {
+            setMenuOpen(false)
+            onClick()
+         }}
+         aria-pressed={pressed}
+      >
+         {icon}
+         {label}
+      </Button>
+   )
+
    return (
-      <div className="sticky top-0 z-30 flex h-[60px] items-center justify-between gap-2 border-b border-zinc-200 bg-white/95 px-2 py-2 backdrop-blur-sm dark:border-zinc-800 dark:bg-zinc-950/95 md:gap-3 md:px-3 md:py-3">
-         <div className="flex items-center gap-1 md:gap-2">
-            <Button variant="secondary" className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base" onClick={onPrevPage} disabled={!canPrevPage}>
+      <nav ref={navRef} aria-label="교재 도구" data-toolbar className={cn('sticky top-0 z-30 flex items-center justify-between gap-2 border-b border-zinc-200 bg-white/95 px-2 py-2 backdrop-blur-sm dark:border-zinc-800 dark:bg-zinc-950/95 md:gap-3 md:px-3 md:py-3', largeUi ? 'h-[76px] md:h-[92px]' : 'h-[60px]')}>
+         {/* 쪽 넘김과 쪽 번호는 항상 같은 자리에 */}
+         <div className="flex shrink-0 items-center gap-1 md:gap-2">
+            <Button ref={menuButtonRef} variant={menuOpen ? 'default' : 'outline'} className="h-9 w-9 p-0 md:h-12 md:w-12" onClick={() => setMenuOpen((v) => !v)} aria-label="도구 더 보기" aria-expanded={menuOpen} aria-controls={MENU_ID}>
+               <MoreHorizontal className="h-4 w-4 md:h-5 md:w-5" />
+            </Button>
+            <Button variant="secondary" className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base" onClick={onPrevPage} disabled={!canPrevPage} aria-label="이전 페이지">
                <ChevronLeft className="h-4 w-4 md:h-5 md:w-5" />
                <span className="hidden sm:inline">이전</span>
             </Button>
-            <Button variant="secondary" className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base" onClick={onNextPage} disabled={!canNextPage}>
+            <div data-toolbar-label className="min-w-14 text-center text-sm font-semibold tabular-nums md:min-w-20 md:text-base">
+               {currentPageLabel}
+            </div>
+            <Button variant="secondary" className="h-9 px-3 text-sm md:h-12 md:px-4 md:text-base" onClick={onNextPage} disabled={!canNextPage} aria-label="다음 페이지">
                <span className="hidden sm:inline">다음</span>
                <ChevronRight className="h-4 w-4 md:h-5 md:w-5" />
             </Button>
          </div>
 
-         <div className="flex items-center gap-1 md:gap-3">
-            <div className="text-sm font-semibold tabular-nums md:text-base">{currentPageLabel}</div>
-
-            <div className="flex items-center gap-1 md:gap-2">
-               <Button variant="outline" className="h-8 w-8 p-0 md:h-12 md:w-12" onClick={onZoomOut} disabled={!canZoomOut} aria-label="축소">
-                  <Minus className="h-3 w-3 md:h-4 md:w-4" />
-               </Button>
-               <div className="min-w-12 text-center text-xs font-semibold tabular-nums md:min-w-20 md:text-base">{zoomLabel}</div>
-               <Button variant="outline" className="h-8 w-8 p-0 md:h-12 md:w-12" onClick={onZoomIn} disabled={!canZoomIn} aria-label="확대">
-                  <Plus className="h-3 w-3 md:h-4 md:w-4" />
+         {/* 큰 버튼 보기로 넓어지면 이쪽만 가로로 밀어서 봄 */}
+         <div className="no-scrollbar flex min-w-0 items-center gap-1 overflow-x-auto md:gap-2">
+            {/* 글자 고르기 중에는 바로 끌 수 있게 상단 바에도 보여 줌 */}
+            {selecting && onToggleSelecting ? (
+               <Button variant="default" className="h-9 w-9 shrink-0 p-0 md:h-12 md:w-12" onClick={onToggleSelecting} aria-label="글자 고르기 끝내기" aria-pressed>
+                  <Highlighter className="h-4 w-4 md:h-5 md:w-5" />
                </Button>
+            ) : null}
+            <Button variant="outline" className="h-8 w-8 shrink-0 p-0 md:h-12 md:w-12" onClick={onZoomOut} disabled={!canZoomOut} aria-label="축소">
+               <Minus className="h-3 w-3 md:h-4 md:w-4" />
+            </Button>
+            <div className="min-w-12 text-center text-xs font-semibold tabular-nums md:min-w-20 md:text-base" data-toolbar-label>
+               {zoomLabel}
             </div>
+            <Button variant="outline" className="h-8 w-8 shrink-0 p-0 md:h-12 md:w-12" onClick={onZoomIn} disabled={!canZoomIn} aria-label="확대">
+               <Plus className="h-3 w-3 md:h-4 md:w-4" />
+            </Button>
          </div>
-      </div>
+
+         {menuOpen ? (
+            <div id={MENU_ID} role="group" aria-label="도구" className="absolute inset-x-2 top-full mt-1 grid max-h-[70dvh] grid-cols-2 gap-1 overflow-y-auto rounded-xl border border-zinc-200 bg-white p-2 shadow-lg dark:border-zinc-800 dark:bg-zinc-950">
+               {onOpenToc ? menuItem('목차', <TableOfContents className="h-5 w-5" />, onOpenToc) : null}
+               {onOpenSearch ? menuItem('검색', <Search className="h-5 w-5" />, onOpenSearch) : null}
+               {onOpenThumbnails ? menuItem('페이지 모아보기', <LayoutGrid className="h-5 w-5" />, onOpenThumbnails) : null}
+               {onToggleBookmark ? menuItem(isBookmarked ? '책갈피 빼기' : '책갈피 꽂기', <Bookmark className={cn('h-5 w-5', isBookmarked && 'fill-current')} />, onToggleBookmark, isBookmarked) : null}
+               {onOpenBookmarks ? menuItem('책갈피 목록', <BookMarked className="h-5 w-5" />, onOpenBookmarks) : null}
+               {onOpenNotes ? menuItem('내 메모', <NotebookPen className="h-5 w-5" />, onOpenNotes) : null}
+               {onToggleSelecting ? menuItem('글자 고르기', <Highlighter className="h-5 w-5" />, onToggleSelecting, selecting) : null}
+               {onOpenPrint ? menuItem(printLabel, printLabel === '인쇄' ? <Printer className="h-5 w-5" /> : <Download className="h-5 w-5" />, onOpenPrint) : null}
+               {onToggleLargeUi ? menuItem('큰 글씨/큰 버튼', <ALargeSmall className="h-5 w-5" />, onToggleLargeUi, largeUi) : null}
+               {/* 읽기 속도·그만 읽기도 여기서 바로 누를 수 있게 메뉴를 닫지 않음 */}
+               {readAloud ? (
+                  <div className="col-span-2 flex items-center gap-2 border-t border-zinc-200 pt-2 dark:border-zinc-800">
+                     <ReadAloudControls readAloud={readAloud} />
+                     <span className="text-base">소리 내어 읽기</span>
+                  </div>
+               ) : null}
+            </div>
+         ) : null}
+      </nav>
    )
 }
@@ -0,0 +1,97 @@
+import { Fragment, useState } from 'react'
+import { FileJson, FileText, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { NOTE_COLORS } from './notes'
+import { noteColorClass } from './PageHighlights'
+import type { NotesState } from './useNotes'
+
+interface NotesPanelProps {
+   notes: NotesState
+   currentPageIndex: number
+   onSelect: (pageIndex: number) => void
+   // 방금 만든 메모는 바로 적을 수 있게 입력칸에 포커스
+   focusId?: string | null
+}
+
+// "내 메모": 형광펜과 쪽 메모를 쪽 순서로 모아 보고 고치는 패널
+export function NotesPanel({ notes, currentPageIndex, onSelect, focusId }: NotesPanelProps) {
+   const items = notes.notes
+   const [createdId, setCreatedId] = useState<string | null>(null)
+
+   return (
+      <div className="flex flex-col gap-2">
+         <div className="flex flex-wrap items-center gap-2 p-1">
+            <Button className="h-10 flex-1 text-sm" onClick={() => setCreatedId(notes.addPageNote(currentPageIndex).id)}>
+               <Plus className="h-4 w-4" />
+               {currentPageIndex + 1}쪽에 메모
+            </Button>
+            <Button variant="outline" className="h-10 px-3 text-sm" onClick={() => notes.exportFile('markdown')} disabled={items.length === 0} aria-label="마크다운으로 내보내기">
+               <FileText className="h-4 w-4" />
+               MD
+            </Button>
+            <Button variant="outline" className="h-10 px-3 text-sm" onClick={() => notes.exportFile('json')} disabled={items.length === 0} aria-label="JSON으로 내보내기">
+               <FileJson className="h-4 w-4" />
+               JSON
+            </Button>
+         </div>
+
+         {notes.error ? (
+            <div className="px-2 text-sm text-red-700 dark:text-red-300" role="alert">
+               {notes.error}
+            </div>
+         ) : null}
+
+         {items.length === 0 ? (
+            <p className="px-2 py-4 text-sm text-zinc-600 dark:text-zinc-400 md:text-base">아직 메모가 없어요. 책의 글자를 드래그해 형광펜을 칠하거나, 위 버튼으로 쪽 메모를 남겨 보세요.</p>
+         ) : (
+            <ul className="flex flex-col gap-1">
+               {items.map((note, i) => (
+                  <Fragment key={note.id}>
+                     {i === 0 || items[i - 1].pageIndex !== note.pageIndex ? (
+                        <li className="px-2 pt-2">
+                           <button type="button" onClick={() => onSelect(note.pageIndex)} className={cn('text-sm font-semibold tabular-nums hover:underline md:text-base', note.pageIndex === currentPageIndex && 'text-sky-700 dark:text-sky-300')}>
+                              {note.pageIndex + 1}쪽
+                           </button>
+                        </li>
+                     ) : null}
+                     <li className="flex flex-col gap-2 rounded-md border border-zinc-200 p-2 dark:border-zinc-800">
+                        {note.highlight ? (
+                           <button type="button" onClick={() => onSelect(note.pageIndex)} className={cn('line-clamp-3 rounded-sm px-1 text-left text-sm md:text-base', noteColorClass(note.color))}>
+                              {note.highlight.quote}
+                           </button>
+                        ) : null}
+                        <textarea
+                           value={note.text}
+                           onChange={(e) => notes.update(note.id, { text: e.target.value })}
+                           placeholder="메모를 적어 보세요"
+                           aria-label={`${note.pageIndex + 1}쪽 메모`}
+                           autoFocus={note.id === (createdId ?? focusId)}
+                           rows={2}
+                           className="min-h-16 w-full resize-y rounded-md border border-zinc-200 bg-white px-2 py-1.5 text-sm outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus-visible:ring-zinc-700 md:text-base"
+                        />
+                        <div className="flex items-center gap-1">
+                           {note.highlight
+                              ? NOTE_COLORS.map(({ color, label }) => (
+                                   <button
+                                      key={color}
+                                      type="button"
+                                      onClick={() => notes.update(note.id, { color })}
+                                      aria-label={`${label}으로 바꾸기`}
+                                      aria-pressed={note.color === color}
+                                      className={cn('h-7 w-7 rounded-full border', noteColorClass(color), note.color === color ? 'border-zinc-900 dark:border-zinc-100' : 'border-zinc-300 dark:border-zinc-700')}
+                                   />
+                                ))
+                              : null}
+                           <Button variant="ghost" className="ml-auto h-9 w-9 p-0" onClick={() => notes.remove(note.id)} aria-label="메모 삭제">
+                              <Trash2 className="h-4 w-4" />
+                           </Button>
+                        </div>
+                     </li>
+                  </Fragment>
+               ))}
+            </ul>
+         )}
+      </div>
+   )
+}
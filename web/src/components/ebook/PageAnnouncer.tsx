@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react'
+
+interface PageAnnouncerProps {
+   message: string
+}
+
+// 화면 낭독기용 쪽 이동 안내. 길게 눌러 여러 장 넘길 때는 멈춘 뒤 한 번만 읽도록 잠시 기다림
+export function PageAnnouncer({ message }: PageAnnouncerProps) {
+   const [announced, setAnnounced] = useState('')
+
+   useEffect(() => {
+      const timer = window.setTimeout(() => setAnnounced(message), 500)
+      return () => window.clearTimeout(timer)
+   }, [message])
+
+   return (
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+         {announced}
+      </div>
+   )
+}
@@ -0,0 +1,73 @@
+import { cn } from '@/lib/utils'
+import type { NoteColor } from './notes'
+import type { PageRect } from './pageText'
+
+interface PageHighlightsProps {
+   highlights: Array<{ rects: PageRect[]; active: boolean }>
+}
+
+// 캔버스 위에 비율 좌표로 얹는 검색 하이라이트(줌이 바뀌어도 다시 계산할 필요 없음)
+export function PageHighlights({ highlights }: PageHighlightsProps) {
+   return (
+      <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+         {highlights.map((hl, i) =>
+            hl.rects.map((r, j) => (
+               <div
+                  key={`${i}-${j}`}
+                  className={cn('absolute rounded-[2px] mix-blend-multiply', hl.active ? 'bg-orange-400/60' : 'bg-yellow-300/50')}
+                  style={{ left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.w * 100}%`, height: `${r.h * 100}%` }}
+               />
+            ))
+         )}
+      </div>
+   )
+}
+
+const NOTE_COLOR_CLASS: Record<NoteColor, string> = {
+   yellow: 'bg-yellow-300/45',
+   green: 'bg-lime-300/45',
+   blue: 'bg-sky-300/45',
+   pink: 'bg-pink-300/45',
+}
+
+export const noteColorClass = (color: NoteColor) => NOTE_COLOR_CLASS[color]
+
+interface NoteHighlightsProps {
+   highlights: Array<{ rects: PageRect[]; color: NoteColor }>
+}
+
+// 사용자 형광펜(메모). 검색 하이라이트와 같은 비율 좌표 방식
+export function NoteHighlights({ highlights }: NoteHighlightsProps) {
+   return (
+      <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+         {highlights.map((hl, i) =>
+            hl.rects.map((r, j) => (
+               <div
+                  key={`${i}-${j}`}
+                  className={cn('absolute mix-blend-multiply', NOTE_COLOR_CLASS[hl.color])}
+                  style={{ left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.w * 100}%`, height: `${r.h * 100}%` }}
+               />
+            ))
+         )}
+      </div>
+   )
+}
+
+interface SpeechHighlightProps {
+   rects: PageRect[]
+}
+
+// 소리 내어 읽기 중인 문장. 형광펜과 구분되게 밑줄 느낌의 파란 띠
+export function SpeechHighlight({ rects }: SpeechHighlightProps) {
+   return (
+      <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+         {rects.map((r, i) => (
+            <div
+               key={i}
+               className="absolute rounded-[2px] border-b-2 border-sky-600 bg-sky-200/40 mix-blend-multiply dark:border-sky-400"
+               style={{ left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.w * 100}%`, height: `${r.h * 100}%` }}
+            />
+         ))}
+      </div>
+   )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { loadPageLinks, type PageLink, type PageLinkSource, type PageLinkTarget } from './pageLinks'
+
+interface PageLinkLayerProps {
+   doc: PageLinkSource
+   pageIndex: number
+   onActivate: (target: PageLinkTarget) => void
+   // 모바일은 .flipbook-overlay가 탭을 받고 findPageLinkAt으로 링크를 대신 눌러 줌
+   interactive: boolean
+}
+
+// 링크 주석을 페이지 비율 좌표로 얹음(줌이 바뀌어도 히트 영역이 함께 커짐)
+export function PageLinkLayer({ doc, pageIndex, onActivate, interactive }: PageLinkLayerProps) {
+   const [links, setLinks] = useState<PageLink[]>([])
+
+   useEffect(() => {
+      let cancelled = false
+      loadPageLinks(doc, pageIndex)
+         .then((loaded) => {
+            if (!cancelled) setLinks(loaded)
+         })
+         .catch((e) => {
+            if (cancelled) return
+            // eslint-disable-next-line no-console
+            console.error(`[EbookFlipbook] link layer error (page ${pageIndex + 1}):`, e)
+         })
+      return () => {
+         cancelled = true
+      }
+   }, [doc, pageIndex])
+
+   if (links.length === 0) return null
+
+   return (
+      <div className="pointer-events-none absolute inset-0 z-10">
+         {links.map((link, i) => (
+            // page-flip은 <a> 위에서 시작한 드래그는 넘김으로 처리하지 않음
+            <a
+               key={i}
+               data-page-link=""
+               href={link.kind === 'external' ? link.url : `?page=${link.pageIndex + 1}`}
+               aria-label={link.kind === 'external' ? `외부 링크: ${link.url}` : `${link.pageIndex + 1}쪽으로 이동`}
+               className={cn('absolute rounded-[2px]', interactive ? 'pointer-events-auto cursor-pointer hover:bg-sky-400/20 focus-visible:outline-2 focus-visible:outline-sky-500' : 'pointer-events-none')}
+               style={{ left: `${link.rect.x * 100}%`, top: `${link.rect.y * 100}%`, width: `${link.rect.w * 100}%`, height: `${link.rect.h * 100}%` }}
+               onClick={(e) => {
+                  e.preventDefault()
+                  e.stopPropagation()
+                  onActivate(link)
+               }}
+            />
+         ))}
+      </div>
+   )
+}
+
+// 화면 좌표에 놓인 링크(보이는 페이지만). pointer-events와 무관하게 사각형으로 판정
+export function findPageLinkAt(root: ParentNode, clientX: number, clientY: number): HTMLElement | null {
+   for (const el of root.querySelectorAll<HTMLElement>('[data-page-link]')) {
+      const r = el.getBoundingClientRect()
+      if (r.width === 0 || r.height === 0) continue
+      if (clientX >= r.left && clientX <= r.right && clientY >= r.top && clientY <= r.bottom) return el
+   }
+   return null
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useEffect, useRef, useState, type CSSProperties } from 'react'
+import { cn } from '@/lib/utils'
+import type { TextContentPage } from './pageText'
+import { loadPdfjs, type PdfjsTextLayer } from './pdfjs'
+import type { PageSize } from './pdfTypes'
+
+type TextLayerSource = {
+   getPage: (pageNumber: number) => Promise<TextContentPage>
+}
+
+interface PageTextLayerProps {
+   doc: TextLayerSource
+   pageIndex: number
+   pageSize: PageSize
+   // 데스크톱: 글자 위에서만 드래그 선택(나머지 영역은 페이지 넘김 드래그)
+   // 모바일: 평소에는 입력을 .flipbook-overlay가 받고, "글자 고르기"를 켰을 때만 선택 가능
+   selectable: boolean
+}
+
+type LoadedLayer = { page: TextContentPage; layer: PdfjsTextLayer; baseWidth: number }
+
+// 캔버스 위에 투명한 pdf.js 텍스트 레이어를 얹어 선택/복사와 스크린리더 낭독을 지원
+export function PageTextLayer({ doc, pageIndex, pageSize, selectable }: PageTextLayerProps) {
+   const containerRef = useRef<HTMLDivElement>(null)
+   const [loaded, setLoaded] = useState<LoadedLayer | null>(null)
+
+   useEffect(() => {
+      const container = containerRef.current
+      if (!container) return
+      let cancelled = false
+      let layer: PdfjsTextLayer | null = null
+
+      Promise.all([loadPdfjs(), doc.getPage(pageIndex + 1)])
+         .then(async ([pdfjs, page]) => {
+            const content = await page.getTextContent()
+            if (cancelled) return
+            // 레이어 크기는 CSS 변수(--total-scale-factor)로 맞추므로 배율 1 기준으로 만든 뒤 아래 effect에서 갱신
+            const viewport = page.getViewport({ scale: 1 })
+            layer = new pdfjs.TextLayer({ textContentSource: content, container, viewport })
+            await layer.render()
+            if (cancelled) return
+            // 메모 위치를 텍스트 콘텐츠 item 순번으로 저장하기 위해 표시(textSelection.ts)
+            layer.textDivs.forEach((div, i) => {
+               div.dataset.item = String(i)
+            })
+            setLoaded({ page, layer, baseWidth: viewport.width })
+         })
+         .catch((e) => {
+            if (cancelled) return
+            // eslint-disable-next-line no-console
+            console.error(`[EbookFlipbook] text layer error (page ${pageIndex + 1}):`, e)
+         })
+
+      return () => {
+         cancelled = true
+         layer?.cancel()
+         container.replaceChildren()
+         setLoaded(null)
+      }
+   }, [doc, pageIndex])
+
+   const scale = loaded ? pageSize.w / loaded.baseWidth : null
+
+   // 줌/창 크기가 바뀌면 글자 폭(scaleX)을 다시 맞춤. 위치는 CSS 변수만으로 따라감
+   useEffect(() => {
+      if (!loaded || !scale) return
+      loaded.layer.update({ viewport: loaded.page.getViewport({ scale }) })
+   }, [loaded, scale])
+
+   // 선택 드래그가 page-flip의 mousedown(넘김 시작)으로 전달되지 않게 막음.
+   // React 이벤트는 루트에서 처리되어 너무 늦으므로 네이티브 리스너를 사용
+   useEffect(() => {
+      const container = containerRef.current
+      if (!container || !selectable) return
+      const stop = (e: MouseEvent) => {
+         if (e.target !== container) e.stopPropagation()
+      }
+      container.addEventListener('mousedown', stop)
+      return () => container.removeEventListener('mousedown', stop)
+   }, [selectable])
+
+   return (
+      <div
+         ref={containerRef}
+         data-page-index={pageIndex}
+         className={cn('textLayer', selectable && 'is-selectable')}
+         style={{ '--total-scale-factor': scale ?? 1, visibility: scale ? undefined : 'hidden' } as CSSProperties}
+      />
+   )
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { LockKeyhole } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface PasswordPromptProps {
+   // 방금 입력한 비밀번호가 틀렸는지
+   incorrect: boolean
+   // 교재 설정에 비밀번호가 필요하다고 적혀 있는지(안내 문구만 다름)
+   expected: boolean
+   onSubmit: (password: string, remember: boolean) => void
+   onCancel: () => void
+}
+
+export function PasswordPrompt({ incorrect, expected, onSubmit, onCancel }: PasswordPromptProps) {
+   const [password, setPassword] = useState('')
+   const [remember, setRemember] = useState(true)
+
+   return (
+      <div className="flex flex-1 items-center justify-center p-4">
+         <form
+            role="dialog"
+            aria-label="교재 비밀번호 입력"
+            className="flex w-full max-w-sm flex-col gap-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-950"
+            onSubmit={(e) => {
+               e.preventDefault()
+               if (!password) return
+               onSubmit(password, remember)
+               setPassword('')
+            }}
+         >
+            <div className="flex flex-col items-center gap-2 text-center">
+               <LockKeyhole className="h-10 w-10 text-zinc-500" aria-hidden="true" />
+               <h2 className="text-lg font-bold md:text-xl">비밀번호를 입력해 주세요</h2>
+               <p className="text-base text-zinc-600 dark:text-zinc-400">{expected ? '이 교재는 비밀번호로 잠겨 있어요. 교육원에서 받은 비밀번호를 입력해 주세요.' : '이 파일은 비밀번호로 잠겨 있어요.'}</p>
+            </div>
+
+            <input
+               type="password"
+               value={password}
+               onChange={(e) => setPassword(e.target.value)}
+               autoFocus
+               autoComplete="current-password"
+               aria-label="비밀번호"
+               aria-invalid={incorrect}
+               aria-describedby={incorrect ? 'pdf-password-error' : undefined}
+               className="h-12 w-full rounded-md border border-zinc-200 bg-white px-3 text-base outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus-visible:ring-zinc-700"
+            />
+            {incorrect ? (
+               <p id="pdf-password-error" className="-mt-2 text-sm text-red-700 dark:text-red-300" role="alert">
+                  비밀번호가 맞지 않아요. 다시 입력해 주세요.
+               </p>
+            ) : null}
+
+            <label className="flex items-center gap-2 text-sm md:text-base">
+               <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} className="h-5 w-5" />
+               이 창을 닫을 때까지 기억하기
+            </label>
+
+            <div className="flex gap-2">
+               <Button type="button" variant="outline" className="h-12 flex-1 text-base" onClick={onCancel}>
+                  취소
+               </Button>
+               <Button type="submit" className="h-12 flex-1 text-base" disabled={!password}>
+                  열기
+               </Button>
+            </div>
+         </form>
+      </div>
+   )
+}
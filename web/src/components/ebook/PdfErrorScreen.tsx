@@ -0,0 +1,55 @@
+import Link from 'next/link'
+import { FileQuestion, FileWarning, Globe, Loader2, LockKeyhole, MonitorX, RotateCw, WifiOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { PdfErrorKind } from './pdfErrors'
+import type { PdfLoadStatus } from './usePdfDocument'
+
+interface PdfErrorScreenProps {
+   status: Extract<PdfLoadStatus, { state: 'error' }>
+   onRetry: () => void
+}
+
+const ICONS: Record<PdfErrorKind, typeof WifiOff> = {
+   network: WifiOff,
+   'not-found': FileQuestion,
+   'invalid-pdf': FileWarning,
+   password: LockKeyhole,
+   'unsupported-browser': Globe,
+   worker: MonitorX,
+   unknown: FileWarning,
+}
+
+// 로드 실패 화면. 원인별 안내 + 크게 누를 수 있는 "다시 시도" 버튼
+export function PdfErrorScreen({ status, onRetry }: PdfErrorScreenProps) {
+   const { error, autoRetry } = status
+   const Icon = ICONS[error.kind]
+
+   return (
+      <div className="flex flex-1 items-center justify-center p-4">
+         <div role="alert" className="flex w-full max-w-md flex-col items-center gap-4 rounded-xl border border-zinc-200 bg-white p-6 text-center shadow-sm dark:border-zinc-800 dark:bg-zinc-950 md:p-8">
+            <Icon className="h-12 w-12 text-zinc-500" aria-hidden="true" />
+            <div>
+               <h2 className="text-lg font-bold md:text-xl">{error.title}</h2>
+               <p className="mt-2 text-base text-zinc-600 dark:text-zinc-400">{error.description}</p>
+            </div>
+
+            {autoRetry ? (
+               <p className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400" role="status">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {Math.round(autoRetry.delayMs / 1000)}초 뒤 자동으로 다시 시도해요 ({autoRetry.attempt}/{autoRetry.max})
+               </p>
+            ) : null}
+
+            <div className="flex w-full flex-col gap-2 sm:flex-row">
+               <Button className="h-12 flex-1 text-base" onClick={onRetry}>
+                  <RotateCw className="h-5 w-5" />
+                  다시 시도
+               </Button>
+               <Button asChild variant="outline" className="h-12 flex-1 text-base">
+                  <Link href="/">교재 목록으로</Link>
+               </Button>
+            </div>
+         </div>
+      </div>
+   )
+}
@@ -0,0 +1,35 @@
+import { Loader2 } from 'lucide-react'
+import type { PdfLoadStatus } from './usePdfDocument'
+
+interface PdfLoadingScreenProps {
+   status: Extract<PdfLoadStatus, { state: 'loading' }>
+}
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`
+
+// 로드 중 화면. 파일 크기를 알면 받은 만큼 채워지는 막대, 모르면 받은 용량만 표시
+export function PdfLoadingScreen({ status }: PdfLoadingScreenProps) {
+   const { progress } = status
+   const percent = progress?.total ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : null
+
+   return (
+      <div className="flex flex-1 items-center justify-center p-4">
+         <div className="flex w-full max-w-xs flex-col items-center gap-3 text-base text-zinc-700 dark:text-zinc-200">
+            <div className="flex items-center gap-3">
+               <Loader2 className="animate-spin" />
+               PDF 불러오는 중…
+            </div>
+            {progress ? (
+               <div className="w-full">
+                  <div className="h-2 overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800" role="progressbar" aria-label="교재 받는 중" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent ?? undefined}>
+                     <div className={percent === null ? 'h-full w-1/3 animate-pulse bg-zinc-900 dark:bg-zinc-100' : 'h-full bg-zinc-900 transition-[width] dark:bg-zinc-100'} style={percent === null ? undefined : { width: `${percent}%` }} />
+                  </div>
+                  <div className="mt-1 text-center text-sm tabular-nums text-zinc-600 dark:text-zinc-400">
+                     {percent === null ? formatMb(progress.loaded) : `${percent}% · ${formatMb(progress.loaded)} / ${formatMb(progress.total ?? 0)}`}
+                  </div>
+               </div>
+            ) : null}
+         </div>
+      </div>
+   )
+}
@@ -0,0 +1,53 @@
+import { ChevronLeft, ChevronRight, Pause, Play, Timer, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { PresentationState } from './usePresentation'
+
+interface PresentationControlsProps {
+   presentation: PresentationState
+   currentPageLabel: string
+   canPrevPage: boolean
+   canNextPage: boolean
+   onPrevPage: () => void
+   onNextPage: () => void
+}
+
+// 발표 모드 하단 도구 막대. 마우스를 멈추면 사라지고, 움직이거나 키보드로 들어오면 다시 보임
+export function PresentationControls({ presentation, currentPageLabel, canPrevPage, canNextPage, onPrevPage, onNextPage }: PresentationControlsProps) {
+   const { playing, interval, controlsVisible } = presentation
+
+   return (
+      <div
+         role="toolbar"
+         aria-label="발표 도구"
+         data-toolbar
+         className={cn(
+            'fixed bottom-4 left-1/2 z-20 flex -translate-x-1/2 items-center gap-2 rounded-xl border border-zinc-200 bg-white/95 p-2 shadow-lg backdrop-blur transition-opacity duration-300 dark:border-zinc-800 dark:bg-zinc-950/90',
+            !controlsVisible && 'pointer-events-none opacity-0'
+         )}
+         onFocus={presentation.revealControls}
+      >
+         <Button variant="secondary" className="h-12 w-12 p-0" onClick={onPrevPage} disabled={!canPrevPage} aria-label="이전 페이지">
+            <ChevronLeft className="h-5 w-5" />
+         </Button>
+         <Button variant={playing ? 'default' : 'outline'} className="h-12 px-4 text-base" onClick={presentation.togglePlaying} aria-pressed={playing} title="자동 넘기기 (Space)">
+            {playing ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+            {playing ? '멈춤' : '자동 넘기기'}
+         </Button>
+         <Button variant="outline" className="h-12 px-3 text-base tabular-nums" onClick={presentation.cycleInterval} aria-label={`자동 넘김 간격 ${interval}초, 눌러서 바꾸기`}>
+            <Timer className="h-5 w-5" />
+            {interval}초
+         </Button>
+         <div data-toolbar-label className="min-w-20 px-2 text-center text-base font-semibold tabular-nums">
+            {currentPageLabel}
+         </div>
+         <Button variant="secondary" className="h-12 w-12 p-0" onClick={onNextPage} disabled={!canNextPage} aria-label="다음 페이지">
+            <ChevronRight className="h-5 w-5" />
+         </Button>
+         <Button variant="ghost" className="h-12 px-3 text-base" onClick={presentation.stop} title="발표 끝내기 (Esc)">
+            <X className="h-5 w-5" />
+            끝내기
+         </Button>
+      </div>
+   )
+}
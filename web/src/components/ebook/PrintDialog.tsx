@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from 'react'
+import { Download, Loader2, Printer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { TocChapter } from './outline'
+import { CenterDialog } from './panels'
+import { downloadPageRange, MAX_PRINT_PAGES, printPageRange, type PrintProgress } from './printPages'
+import type { RenderSource } from './renderEngine'
+
+interface PrintDialogProps {
+   doc: RenderSource
+   pdfUrl: string
+   numPages: number
+   // 지금 화면에 보이는 쪽(0-based)
+   currentPages: number[]
+   chapters: TocChapter[]
+   allowPrint: boolean
+   allowDownload: boolean
+   onClose: () => void
+}
+
+type RangeMode = 'current' | 'chapter' | 'range'
+
+type Job = { kind: 'print' | 'download'; progress: PrintProgress | null }
+
+const inputClass =
+   'h-12 w-24 rounded-md border border-zinc-200 bg-white px-3 text-base tabular-nums outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 disabled:opacity-50 dark:border-zinc-800 dark:bg-black dark:focus-visible:ring-zinc-700'
+
+const formatPages = (pages: number[]) => (pages.length === 1 ? `${pages[0] + 1}쪽` : `${pages[0] + 1}-${pages[pages.length - 1] + 1}쪽`)
+
+const pageSpan = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i)
+
+// 인쇄/PDF 내려받기: 지금 보는 쪽, 단원, 쪽 범위 중에서 골라 인쇄 해상도로 다시 그림
+export function PrintDialog({ doc, pdfUrl, numPages, currentPages, chapters, allowPrint, allowDownload, onClose }: PrintDialogProps) {
+   const visible = currentPages.filter((i) => i >= 0 && i < numPages)
+   const [mode, setMode] = useState<RangeMode>('current')
+   const [chapterIndex, setChapterIndex] = useState(() => {
+      // 지금 보는 쪽이 들어 있는 단원을 먼저 골라 둠
+      const i = chapters.findIndex((c) => visible[0] >= c.from && visible[0] <= c.to)
+      return Math.max(0, i)
+   })
+   const [from, setFrom] = useState(String((visible[0] ?? 0) + 1))
+   const [to, setTo] = useState(String((visible[visible.length - 1] ?? 0) + 1))
+   const [job, setJob] = useState<Job | null>(null)
+   const [error, setError] = useState<string | null>(null)
+   const abortRef = useRef<AbortController | null>(null)
+
+   // 준비 중에 창을 닫으면 렌더를 멈춤
+   useEffect(() => () => abortRef.current?.abort(), [])
+
+   const fromPage = Number(from)
+   const toPage = Number(to)
+   const rangeValid = Number.isInteger(fromPage) && Number.isInteger(toPage) && fromPage >= 1 && toPage <= numPages && fromPage <= toPage
+
+   const chapter = chapters[chapterIndex]
+   const pages = mode === 'current' ? visible : mode === 'chapter' ? (chapter ? pageSpan(chapter.from, chapter.to) : []) : rangeValid ? pageSpan(fromPage - 1, toPage - 1) : []
+   const tooMany = pages.length > MAX_PRINT_PAGES
+   const canRun = pages.length > 0 && !tooMany && !job
+
+   const run = async (kind: Job['kind']) => {
+      if (!canRun) return
+      const controller = new AbortController()
+      abortRef.current = controller
+      setError(null)
+      setJob({ kind, progress: null })
+      const options = { signal: controller.signal, onProgress: (progress: PrintProgress) => setJob({ kind, progress }) }
+      try {
+         if (kind === 'print') await printPageRange(doc, pages, options)
+         else await downloadPageRange(doc, pages, pdfUrl, options)
+         onClose()
+      } catch {
+         if (controller.signal.aborted) {
+            setJob(null)
+            return
+         }
+         setJob(null)
+         setError(kind === 'print' ? '인쇄할 쪽을 준비하지 못했어요. 잠시 후 다시 시도해 주세요.' : '파일을 만들지 못했어요. 쪽 수를 줄이거나 잠시 후 다시 시도해 주세요.')
+      }
+   }
+
+   const title = allowPrint && allowDownload ? '인쇄 / 내려받기' : allowPrint ? '인쇄' : '내려받기'
+   const percent = job?.progress ? Math.round((job.progress.done / Math.max(1, job.progress.total)) * 100) : null
+
+   const option = (value: RangeMode, label: string) => (
+      <label className="flex min-h-12 items-center gap-3 text-base">
+         <input type="radio" name="print-range" value={value} checked={mode === value} onChange={() => setMode(value)} disabled={!!job} className="h-5 w-5" />
+         {label}
+      </label>
+   )
+
+   return (
+      <CenterDialog title={title} onClose={onClose}>
+         <div className="flex flex-col gap-4">
+            <fieldset className="flex flex-col gap-1" disabled={!!job}>
+               <legend className="mb-1 text-sm font-semibold text-zinc-600 dark:text-zinc-400">어느 쪽을 할까요?</legend>
+               {option('current', `지금 보는 쪽 (${visible.length > 0 ? formatPages(visible) : '-'})`)}
+
+               {chapters.length > 0 ? (
+                  <>
+                     {option('chapter', '단원')}
+                     {mode === 'chapter' ? (
+                        <select
+                           value={chapterIndex}
+                           onChange={(e) => setChapterIndex(Number(e.target.value))}
+                           aria-label="단원 고르기"
+                           className="ml-8 h-12 rounded-md border border-zinc-200 bg-white px-3 text-base outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus-visible:ring-zinc-700"
+                        >
+                           {chapters.map((c, i) => (
+                              <option key={i} value={i}>
+                                 {c.title} ({formatPages(pageSpan(c.from, c.to))})
+                              </option>
+                           ))}
+                        </select>
+                     ) : null}
+                  </>
+               ) : null}
+
+               {option('range', '쪽 범위')}
+               {mode === 'range' ? (
+                  <div className="ml-8 flex items-center gap-2 text-base">
+                     <input type="number" inputMode="numeric" min={1} max={numPages} value={from} onChange={(e) => setFrom(e.target.value)} aria-label="시작 쪽" aria-invalid={!rangeValid} className={inputClass} />
+                     <span>~</span>
+                     <input type="number" inputMode="numeric" min={1} max={numPages} value={to} onChange={(e) => setTo(e.target.value)} aria-label="끝 쪽" aria-invalid={!rangeValid} className={inputClass} />
+                     <span className="text-zinc-600 dark:text-zinc-400">/ {numPages}쪽</span>
+                  </div>
+               ) : null}
+            </fieldset>
+
+            {mode === 'range' && !rangeValid ? <p className="text-sm text-red-700 dark:text-red-300">1부터 {numPages} 사이에서 앞 쪽이 뒤 쪽보다 작게 넣어 주세요.</p> : null}
+            {tooMany ? (
+               <p className="text-sm text-red-700 dark:text-red-300">
+                  한 번에 {MAX_PRINT_PAGES}쪽까지 할 수 있어요. 지금 {pages.length}쪽을 골랐어요.
+               </p>
+            ) : null}
+
+            {job ? (
+               <div role="status">
+                  <div className="h-2 overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800" role="progressbar" aria-label={job.kind === 'print' ? '인쇄 준비 중' : '파일 만드는 중'} aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent ?? undefined}>
+                     <div className={percent === null ? 'h-full w-1/3 animate-pulse bg-zinc-900 dark:bg-zinc-100' : 'h-full bg-zinc-900 transition-[width] dark:bg-zinc-100'} style={percent === null ? undefined : { width: `${percent}%` }} />
+                  </div>
+                  <div className="mt-1 flex items-center gap-2 text-sm tabular-nums text-zinc-600 dark:text-zinc-400">
+                     <Loader2 className="h-4 w-4 animate-spin" />
+                     {job.progress ? `${job.progress.done} / ${job.progress.total}쪽 준비 중` : '준비 중'}
+                  </div>
+               </div>
+            ) : null}
+
+            {error ? (
+               <p className="text-sm text-red-700 dark:text-red-300" role="alert">
+                  {error}
+               </p>
+            ) : null}
+
+            <div className="flex flex-col gap-2 sm:flex-row">
+               {job ? (
+                  <Button variant="outline" className="h-12 flex-1 text-base" onClick={() => abortRef.current?.abort()}>
+                     취소
+                  </Button>
+               ) : (
+                  <>
+                     {allowPrint ? (
+                        <Button className="h-12 flex-1 text-base" onClick={() => void run('print')} disabled={!canRun}>
+                           <Printer className="h-5 w-5" />
+                           인쇄하기
+                        </Button>
+                     ) : null}
+                     {allowDownload ? (
+                        <Button variant={allowPrint ? 'outline' : 'default'} className="h-12 flex-1 text-base" onClick={() => void run('download')} disabled={!canRun}>
+                           <Download className="h-5 w-5" />
+                           PDF로 내려받기
+                        </Button>
+                     ) : null}
+                  </>
+               )}
+            </div>
+         </div>
+      </CenterDialog>
+   )
+}
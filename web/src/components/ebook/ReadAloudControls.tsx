@@ -0,0 +1,43 @@
+import { Pause, Square, Volume2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { SPEECH_RATES } from './readAloud'
+import type { ReadAloudState } from './useReadAloud'
+
+interface ReadAloudControlsProps {
+   readAloud: ReadAloudState
+   disabled?: boolean
+}
+
+const formatRate = (rate: number) => `${rate.toFixed(1)}배`
+
+// 소리 내어 읽기: 재생/일시정지, 읽는 중에만 속도·그만 읽기 버튼
+export function ReadAloudControls({ readAloud, disabled = false }: ReadAloudControlsProps) {
+   const { status, rate } = readAloud
+   const playing = status === 'playing'
+   // 모바일 도구 메뉴 한 줄에 글자와 나란히 놓여도 줄어들지 않게
+   const iconButton = 'h-9 w-9 shrink-0 p-0 md:h-12 md:w-12'
+   const icon = 'h-4 w-4 md:h-5 md:w-5'
+
+   const nextRate = () => {
+      const i = SPEECH_RATES.findIndex((r) => r === rate)
+      readAloud.setRate(SPEECH_RATES[(i + 1) % SPEECH_RATES.length])
+   }
+
+   return (
+      <>
+         <Button variant={status === 'idle' ? 'outline' : 'default'} className={iconButton} onClick={playing ? readAloud.pause : readAloud.play} disabled={disabled} aria-label={playing ? '읽기 잠시 멈춤' : status === 'paused' ? '이어서 읽기' : '소리 내어 읽기'} aria-pressed={status !== 'idle'}>
+            {playing ? <Pause className={icon} /> : <Volume2 className={icon} />}
+         </Button>
+         {status !== 'idle' ? (
+            <>
+               <Button variant="outline" className="h-9 shrink-0 px-2 text-sm tabular-nums md:h-12 md:px-3 md:text-base" onClick={nextRate} aria-label={`읽기 속도 ${formatRate(rate)}, 눌러서 바꾸기`}>
+                  {formatRate(rate)}
+               </Button>
+               <Button variant="outline" className={iconButton} onClick={readAloud.stop} aria-label="읽기 그만">
+                  <Square className={icon} />
+               </Button>
+            </>
+         ) : null}
+      </>
+   )
+}
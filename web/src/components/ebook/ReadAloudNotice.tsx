@@ -0,0 +1,20 @@
+import { VolumeX, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface ReadAloudNoticeProps {
+   message: string
+   onClose: () => void
+}
+
+// 소리 내어 읽기를 쓸 수 없을 때의 안내(음성 없음, 지원하지 않는 브라우저 등)
+export function ReadAloudNotice({ message, onClose }: ReadAloudNoticeProps) {
+   return (
+      <div role="alert" className="fixed bottom-4 left-1/2 z-40 flex w-[calc(100%-2rem)] max-w-md -translate-x-1/2 items-center gap-3 rounded-lg border border-zinc-200 bg-white p-3 shadow-lg dark:border-zinc-800 dark:bg-zinc-950 md:p-4">
+         <VolumeX className="h-5 w-5 shrink-0 text-zinc-500" />
+         <div className="min-w-0 flex-1 text-sm md:text-base">{message}</div>
+         <Button variant="ghost" className="h-9 w-9 p-0 md:h-11 md:w-11" onClick={onClose} aria-label="닫기">
+            <X className="h-4 w-4" />
+         </Button>
+      </div>
+   )
+}
@@ -0,0 +1,29 @@
+import { BookOpen, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { ResumeOffer } from './useReadingProgress'
+
+interface ResumePromptProps {
+   progress: ResumeOffer
+   onResume: () => void
+   onDismiss: () => void
+}
+
+export function ResumePrompt({ progress, onResume, onDismiss }: ResumePromptProps) {
+   const savedDate = progress.savedAt == null ? null : new Date(progress.savedAt).toLocaleDateString('ko-KR', { month: 'long', day: 'numeric' })
+
+   return (
+      <div role="dialog" aria-label="이어 읽기" className="fixed bottom-4 left-1/2 z-40 flex w-[calc(100%-2rem)] max-w-md -translate-x-1/2 items-center gap-3 rounded-lg border border-zinc-200 bg-white p-3 shadow-lg dark:border-zinc-800 dark:bg-zinc-950 md:p-4">
+         <BookOpen className="h-5 w-5 shrink-0 text-zinc-500" />
+         <div className="min-w-0 flex-1 text-sm md:text-base">
+            <div className="font-semibold">{progress.pageIndex + 1}쪽부터 이어 읽을까요?</div>
+            {savedDate ? <div className="text-xs text-zinc-500 md:text-sm">{savedDate}에 마지막으로 읽었어요</div> : null}
+         </div>
+         <Button className="h-9 px-3 text-sm md:h-11 md:px-4 md:text-base" onClick={onResume}>
+            이어 읽기
+         </Button>
+         <Button variant="ghost" className="h-9 w-9 p-0 md:h-11 md:w-11" onClick={onDismiss} aria-label="닫기">
+            <X className="h-4 w-4" />
+         </Button>
+      </div>
+   )
+}
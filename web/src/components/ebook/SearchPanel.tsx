@@ -0,0 +1,83 @@
+import { Loader2, Search, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { SearchHit } from './textSearch'
+import type { TextSearchState } from './useTextSearch'
+
+interface SearchPanelProps {
+   search: TextSearchState
+   onSelect: (hit: SearchHit) => void
+}
+
+export function SearchPanel({ search, onSelect }: SearchPanelProps) {
+   const { query, setQuery, hits, activeHit, progress, run, clear } = search
+
+   return (
+      <div className="flex flex-col gap-2">
+         <form
+            className="flex items-center gap-2 p-1"
+            role="search"
+            onSubmit={(e) => {
+               e.preventDefault()
+               void run()
+            }}
+         >
+            <div className="relative flex-1">
+               <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="찾을 낱말을 입력하세요"
+                  aria-label="책 내용 검색"
+                  autoFocus
+                  className="h-11 w-full rounded-md border border-zinc-200 bg-white px-3 pr-9 text-base outline-none focus-visible:ring-2 focus-visible:ring-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus-visible:ring-zinc-700"
+               />
+               {query ? (
+                  <button type="button" className="absolute right-2 top-1/2 -translate-y-1/2 rounded p-1 text-zinc-500" onClick={clear} aria-label="검색어 지우기">
+                     <X className="h-4 w-4" />
+                  </button>
+               ) : null}
+            </div>
+            <Button type="submit" className="h-11 px-4 text-base" disabled={!query.trim()}>
+               <Search className="h-4 w-4" />
+               검색
+            </Button>
+         </form>
+
+         {progress ? (
+            <div className="flex items-center gap-2 px-2 text-sm text-zinc-600 dark:text-zinc-400" role="status">
+               <Loader2 className="h-4 w-4 animate-spin" />
+               찾는 중… {progress.scanned} / {progress.total}쪽
+            </div>
+         ) : null}
+
+         {hits && !progress ? (
+            <div className="px-2 text-sm text-zinc-600 dark:text-zinc-400" role="status">
+               {hits.length > 0 ? `${hits.length}건 찾았어요` : '찾는 내용이 없어요'}
+            </div>
+         ) : null}
+
+         {hits && hits.length > 0 && !progress ? (
+            <ul>
+               {hits.map((hit, i) => (
+                  <li key={i}>
+                     <button
+                        type="button"
+                        onClick={() => onSelect(hit)}
+                        aria-current={hit === activeHit ? 'true' : undefined}
+                        className={cn('flex w-full items-start gap-3 rounded-md px-2 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-900 md:text-base', hit === activeHit && 'bg-zinc-100 dark:bg-zinc-900')}
+                     >
+                        <span className="w-10 shrink-0 pt-0.5 text-xs tabular-nums text-zinc-500">{hit.pageIndex + 1}쪽</span>
+                        <span className="min-w-0 break-all">
+                           {hit.before}
+                           <mark className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40">{hit.match}</mark>
+                           {hit.after}
+                        </span>
+                     </button>
+                  </li>
+               ))}
+            </ul>
+         ) : null}
+      </div>
+   )
+}
@@ -0,0 +1,42 @@
+import { StickyNote } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { NOTE_COLORS, type NoteColor } from './notes'
+import { noteColorClass } from './PageHighlights'
+import type { TextSelectionInfo } from './textSelection'
+
+interface SelectionToolbarProps {
+   selection: TextSelectionInfo
+   onHighlight: (color: NoteColor) => void
+   onNote: () => void
+}
+
+const TOOLBAR_H = 48
+// 상단 컨트롤 바와 겹치지 않게 이보다 위면 선택 아래쪽에 띄움
+const TOP_LIMIT = 96
+
+// 글자를 고르면 선택 위에 뜨는 형광펜/메모 도구 막대
+export function SelectionToolbar({ selection, onHighlight, onNote }: SelectionToolbarProps) {
+   const { clientRect } = selection
+   const above = clientRect.top - TOOLBAR_H - 8
+   const top = above >= TOP_LIMIT ? above : clientRect.bottom + 8
+   const left = Math.min(window.innerWidth - 120, Math.max(120, clientRect.left + clientRect.width / 2))
+
+   return (
+      <div
+         role="toolbar"
+         aria-label="형광펜"
+         className="fixed z-30 flex -translate-x-1/2 items-center gap-1 rounded-full border border-zinc-200 bg-white p-1.5 shadow-lg dark:border-zinc-800 dark:bg-zinc-950"
+         style={{ top, left, height: TOOLBAR_H }}
+         // 버튼을 눌러도 선택이 풀리지 않게
+         onMouseDown={(e) => e.preventDefault()}
+      >
+         {NOTE_COLORS.map(({ color, label }) => (
+            <button key={color} type="button" onClick={() => onHighlight(color)} aria-label={`${label} 형광펜`} className={cn('h-9 w-9 rounded-full border border-zinc-300 dark:border-zinc-700', noteColorClass(color))} />
+         ))}
+         <button type="button" onClick={onNote} className="flex h-9 items-center gap-1 rounded-full px-3 text-sm font-semibold hover:bg-zinc-100 dark:hover:bg-zinc-900">
+            <StickyNote className="h-4 w-4" />
+            메모
+         </button>
+      </div>
+   )
+}
@@ -0,0 +1,28 @@
+import { CenterDialog } from './panels'
+import { SHORTCUT_HELP } from './keyboardShortcuts'
+
+interface ShortcutHelpProps {
+   onClose: () => void
+}
+
+// ? 키로 여는 단축키 안내
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+   return (
+      <CenterDialog title="키보드 단축키" onClose={onClose}>
+         <dl className="flex flex-col gap-2 text-sm md:text-base">
+            {SHORTCUT_HELP.map((entry) => (
+               <div key={entry.label} className="flex items-center justify-between gap-4">
+                  <dt className="flex shrink-0 gap-1">
+                     {entry.keys.map((key) => (
+                        <kbd key={key} className="min-w-8 rounded border border-zinc-300 bg-zinc-50 px-1.5 py-0.5 text-center font-mono text-xs font-semibold dark:border-zinc-700 dark:bg-zinc-900 md:text-sm">
+                           {key}
+                        </kbd>
+                     ))}
+                  </dt>
+                  <dd className="text-right text-zinc-700 dark:text-zinc-300">{entry.label}</dd>
+               </div>
+            ))}
+         </dl>
+      </CenterDialog>
+   )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import type { ThumbnailRenderer } from './thumbnails'
+
+interface ThumbnailNavigatorProps {
+   renderer: ThumbnailRenderer
+   numPages: number
+   // height / width
+   pageRatio: number
+   // 현재 펼쳐진 페이지들(스프레드면 2장)
+   currentPages: number[]
+   layout: 'strip' | 'grid'
+   onSelect: (pageIndex: number) => void
+   className?: string
+}
+
+const GAP = 8
+const LABEL_H = 20
+const STRIP_ITEM_W = 72
+const GRID_MIN_ITEM_W = 100
+const OVERSCAN = 4
+
+function Thumbnail({ renderer, pageIndex }: { renderer: ThumbnailRenderer; pageIndex: number }) {
+   const [loaded, setLoaded] = useState<{ pageIndex: number; url: string } | null>(null)
+
+   useEffect(() => {
+      let cancelled = false
+      void renderer.request(pageIndex).then((url) => {
+         if (!cancelled && url) setLoaded({ pageIndex, url })
+      })
+      return () => {
+         cancelled = true
+         renderer.release(pageIndex)
+      }
+   }, [renderer, pageIndex])
+
+   const url = loaded?.pageIndex === pageIndex ? loaded.url : null
+   // eslint-disable-next-line @next/next/no-img-element
+   return url ? <img src={url} alt="" className="h-full w-full object-contain" draggable={false} /> : null
+}
+
+// 보이는 범위의 썸네일만 DOM에 두는 가상 스크롤 목록(PC: 가로 띠, 모바일: 전체 격자)
+export function ThumbnailNavigator({ renderer, numPages, pageRatio, currentPages, layout, onSelect, className }: ThumbnailNavigatorProps) {
+   const scrollRef = useRef<HTMLDivElement | null>(null)
+   const [viewport, setViewport] = useState({ scroll: 0, width: 0, height: 0 })
+
+   useEffect(() => {
+      const el = scrollRef.current
+      if (!el) return
+      const update = () => setViewport({ scroll: layout === 'strip' ? el.scrollLeft : el.scrollTop, width: el.clientWidth, height: el.clientHeight })
+      update()
+      const ro = new ResizeObserver(update)
+      ro.observe(el)
+      el.addEventListener('scroll', update, { passive: true })
+      return () => {
+         ro.disconnect()
+         el.removeEventListener('scroll', update)
+      }
+   }, [layout])
+
+   const isStrip = layout === 'strip'
+   const cols = isStrip ? 1 : Math.max(2, Math.floor((viewport.width + GAP) / (GRID_MIN_ITEM_W + GAP)))
+   const itemW = isStrip ? STRIP_ITEM_W : Math.max(0, (viewport.width - GAP * (cols - 1)) / cols)
+   const itemH = itemW * pageRatio + LABEL_H
+   // strip은 열 단위, grid는 행 단위로 슬롯을 계산
+   const slot = isStrip ? itemW + GAP : itemH + GAP
+   const slots = isStrip ? numPages : Math.ceil(numPages / cols)
+   const extent = isStrip ? viewport.width : viewport.height
+   const firstSlot = Math.max(0, Math.floor(viewport.scroll / slot) - OVERSCAN)
+   const lastSlot = Math.min(slots - 1, Math.ceil((viewport.scroll + extent) / slot) + OVERSCAN)
+   const firstPage = firstSlot * cols
+   const lastPage = Math.min(numPages - 1, (lastSlot + 1) * cols - 1)
+
+   const currentFirst = currentPages[0] ?? 0
+   const hasLayout = itemW > 0
+
+   // 열릴 때 현재 페이지가 가운데 오도록 스크롤
+   useEffect(() => {
+      const el = scrollRef.current
+      if (!el || !hasLayout) return
+      if (isStrip) el.scrollLeft = Math.max(0, currentFirst * slot - (el.clientWidth - itemW) / 2)
+      else el.scrollTop = Math.max(0, Math.floor(currentFirst / cols) * slot - (el.clientHeight - itemH) / 2)
+      // 처음 열릴 때와 레이아웃이 바뀔 때만 맞춤(스크롤 중 현재 페이지가 바뀌어도 사용자가 보던 위치 유지)
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+   }, [isStrip, hasLayout])
+
+   const items = []
+   for (let i = firstPage; i <= lastPage && itemW > 0; i++) {
+      const col = isStrip ? 0 : i % cols
+      const row = isStrip ? 0 : Math.floor(i / cols)
+      const left = isStrip ? i * slot : col * (itemW + GAP)
+      const top = isStrip ? 0 : row * slot
+      const isCurrent = currentPages.includes(i)
+      items.push(
+         <button
+            key={i}
+            type="button"
+            onClick={() => onSelect(i)}
+            aria-label={`${i + 1}쪽으로 이동`}
+            aria-current={isCurrent ? 'page' : undefined}
+            className="absolute flex flex-col items-center rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400"
+            style={{ left, top, width: itemW, height: itemH }}
+         >
+            <div className={cn('w-full overflow-hidden rounded-sm border bg-white dark:bg-zinc-900', isCurrent ? 'border-zinc-900 ring-2 ring-zinc-900 dark:border-zinc-50 dark:ring-zinc-50' : 'border-zinc-200 dark:border-zinc-800')} style={{ height: itemW * pageRatio }}>
+               <Thumbnail renderer={renderer} pageIndex={i} />
+            </div>
+            <span className={cn('text-xs tabular-nums leading-5', isCurrent ? 'font-semibold' : 'text-zinc-500')}>{i + 1}</span>
+         </button>
+      )
+   }
+
+   return (
+      <div ref={scrollRef} className={cn('no-scrollbar relative', isStrip ? 'overflow-x-auto overflow-y-hidden' : 'overflow-y-auto overflow-x-hidden', className)}>
+         <div className="relative" style={isStrip ? { width: slots * slot, height: itemH } : { height: slots * slot, width: '100%' }}>
+            {items}
+         </div>
+      </div>
+   )
+}
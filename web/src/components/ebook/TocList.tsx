@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { TocItem } from './outline'
+
+interface TocListProps {
+   items: TocItem[]
+   activeItem: TocItem | null
+   onSelect: (pageIndex: number) => void
+}
+
+function containsItem(item: TocItem, target: TocItem | null): boolean {
+   if (!target) return false
+   return item.items.some((child) => child === target || containsItem(child, target))
+}
+
+function TocNode({ item, depth, activeItem, onSelect }: { item: TocItem; depth: number } & Omit<TocListProps, 'items'>) {
+   // 현재 장을 포함한 항목은 처음부터 펼쳐 둠
+   const [open, setOpen] = useState(() => containsItem(item, activeItem))
+   const isActive = item === activeItem
+   const hasChildren = item.items.length > 0
+
+   return (
+      <li>
+         <div className="flex items-center" style={{ paddingLeft: depth * 12 }}>
+            {hasChildren ? (
+               <button type="button" className="flex h-10 w-8 shrink-0 items-center justify-center rounded-md text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-900" onClick={() => setOpen((v) => !v)} aria-expanded={open} aria-label={open ? '접기' : '펼치기'}>
+                  {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+               </button>
+            ) : (
+               <span className="w-8 shrink-0" />
+            )}
+            <button
+               type="button"
+               disabled={item.pageIndex == null}
+               onClick={() => item.pageIndex != null && onSelect(item.pageIndex)}
+               aria-current={isActive ? 'true' : undefined}
+               className={cn('flex min-h-10 flex-1 items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-zinc-100 disabled:opacity-50 dark:hover:bg-zinc-900 md:text-base', isActive && 'bg-zinc-100 font-semibold dark:bg-zinc-900')}
+            >
+               <span className="min-w-0 break-keep">{item.title}</span>
+               {item.pageIndex != null ? <span className="shrink-0 text-xs tabular-nums text-zinc-500">{item.pageIndex + 1}</span> : null}
+            </button>
+         </div>
+         {hasChildren && open ? (
+            <ul>
+               {item.items.map((child, i) => (
+                  <TocNode key={i} item={child} depth={depth + 1} activeItem={activeItem} onSelect={onSelect} />
+               ))}
+            </ul>
+         ) : null}
+      </li>
+   )
+}
+
+export function TocList({ items, activeItem, onSelect }: TocListProps) {
+   return (
+      <ul>
+         {items.map((item, i) => (
+            <TocNode key={i} item={item} depth={0} activeItem={activeItem} onSelect={onSelect} />
+         ))}
+      </ul>
+   )
+}
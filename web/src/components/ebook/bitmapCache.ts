@@ -0,0 +1,99 @@
+// 렌더 결과를 페이지+해상도 단위로 보관하는 LRU 캐시. 메모리는 w*h*4 바이트로 계산해 예산을 넘으면 오래된 것부터 해제
+
+export type CachedPageImage = {
+   pageIndex: number
+   // 렌더 당시 sizeKey(페이지 크기@줌)
+   key: string
+   image: ImageBitmap | HTMLCanvasElement
+   width: number
+   height: number
+   bytes: number
+}
+
+function releaseImage(image: ImageBitmap | HTMLCanvasElement) {
+   if ('close' in image) image.close()
+   else {
+      image.width = 0
+      image.height = 0
+   }
+}
+
+export function createBitmapCache(initialBudgetBytes: number) {
+   // Map의 삽입 순서를 LRU 순서로 사용(조회 시 맨 뒤로 다시 넣음)
+   const entries = new Map<string, CachedPageImage>()
+   let budget = initialBudgetBytes
+   let used = 0
+
+   const id = (pageIndex: number, key: string) => `${pageIndex}|${key}`
+
+   const remove = (entryId: string) => {
+      const entry = entries.get(entryId)
+      if (!entry) return
+      entries.delete(entryId)
+      used -= entry.bytes
+      releaseImage(entry.image)
+   }
+
+   const evict = (keep?: string) => {
+      for (const entryId of entries.keys()) {
+         if (used <= budget) break
+         if (entryId === keep) continue
+         remove(entryId)
+      }
+   }
+
+   const touch = (entryId: string, entry: CachedPageImage) => {
+      entries.delete(entryId)
+      entries.set(entryId, entry)
+   }
+
+   const put = (pageIndex: number, key: string, image: ImageBitmap | HTMLCanvasElement) => {
+      const entryId = id(pageIndex, key)
+      remove(entryId)
+      const entry: CachedPageImage = { pageIndex, key, image, width: image.width, height: image.height, bytes: image.width * image.height * 4 }
+      entries.set(entryId, entry)
+      used += entry.bytes
+      evict(entryId)
+      return entry
+   }
+
+   // 같은 해상도가 있으면 그것을, 없으면 가장 선명한(큰) 것을 반환
+   const best = (pageIndex: number, preferKey: string | null): CachedPageImage | null => {
+      if (preferKey) {
+         const exactId = id(pageIndex, preferKey)
+         const exact = entries.get(exactId)
+         if (exact) {
+            touch(exactId, exact)
+            return exact
+         }
+      }
+      let found: { entryId: string; entry: CachedPageImage } | null = null
+      for (const [entryId, entry] of entries) {
+         if (entry.pageIndex !== pageIndex) continue
+         if (!found || entry.width > found.entry.width) found = { entryId, entry }
+      }
+      if (found) touch(found.entryId, found.entry)
+      return found?.entry ?? null
+   }
+
+   const setBudget = (bytes: number) => {
+      budget = bytes
+      evict()
+   }
+
+   const clear = () => {
+      for (const entryId of [...entries.keys()]) remove(entryId)
+   }
+
+   return {
+      put,
+      best,
+      setBudget,
+      clear,
+      get usedBytes() {
+         return used
+      },
+   }
+}
+
+export type BitmapCache = ReturnType<typeof createBitmapCache>
@@ -0,0 +1,63 @@
+import { baseNameFromUrl, downloadText } from '@/lib/download'
+
+// 사용자 책갈피. 책(pdfUrl)별로 기기에 저장하고 JSON 파일로 옮길 수 있음
+
+export type Bookmark = {
+   pageIndex: number
+   // 비워 두면 "N쪽"으로만 표시
+   label: string
+   createdAt: number
+}
+
+export type BookmarkExport = {
+   version: 1
+   book: string
+   exportedAt: number
+   bookmarks: Bookmark[]
+}
+
+export const BOOKMARK_LABEL_MAX = 40
+
+export const bookmarksKey = (pdfUrl: string) => `ebook:bookmarks:${pdfUrl}`
+
+export function sortBookmarks(items: Bookmark[]) {
+   return [...items].sort((a, b) => a.pageIndex - b.pageIndex)
+}
+
+function toBookmark(value: unknown, numPages: number): Bookmark | null {
+   if (!value || typeof value !== 'object') return null
+   const v = value as Partial<Bookmark>
+   if (typeof v.pageIndex !== 'number' || !Number.isInteger(v.pageIndex) || v.pageIndex < 0 || v.pageIndex >= numPages) return null
+   return {
+      pageIndex: v.pageIndex,
+      label: typeof v.label === 'string' ? v.label.trim().slice(0, BOOKMARK_LABEL_MAX) : '',
+      createdAt: typeof v.createdAt === 'number' ? v.createdAt : Date.now(),
+   }
+}
+
+// 저장값/가져온 파일을 검증. 내보내기 형식과 배열만 있는 형식 모두 허용, 범위 밖 페이지는 버림
+export function parseBookmarks(value: unknown, numPages: number): Bookmark[] {
+   const list = Array.isArray(value) ? value : value && typeof value === 'object' ? (value as Partial<BookmarkExport>).bookmarks : null
+   if (!Array.isArray(list)) return []
+   const byPage = new Map<number, Bookmark>()
+   for (const item of list) {
+      const b = toBookmark(item, numPages)
+      if (b) byPage.set(b.pageIndex, b)
+   }
+   return sortBookmarks([...byPage.values()])
+}
+
+// 가져온 책갈피를 기존 목록에 합침. 같은 쪽이면 가져온 이름이 있을 때만 덮어씀
+export function mergeBookmarks(current: Bookmark[], incoming: Bookmark[]) {
+   const byPage = new Map(current.map((b) => [b.pageIndex, b]))
+   for (const b of incoming) {
+      const prev = byPage.get(b.pageIndex)
+      byPage.set(b.pageIndex, prev ? { ...prev, label: b.label || prev.label } : b)
+   }
+   return sortBookmarks([...byPage.values()])
+}
+
+export function downloadBookmarks(pdfUrl: string, bookmarks: Bookmark[]) {
+   const data: BookmarkExport = { version: 1, book: pdfUrl, exportedAt: Date.now(), bookmarks }
+   downloadText(`${baseNameFromUrl(pdfUrl)}-책갈피.json`, JSON.stringify(data, null, 2), 'application/json')
+}
@@ -0,0 +1,49 @@
+// 전체 화면 전환. 구형 사파리는 webkit 접두사만 지원
+
+type WebkitDocument = Document & { webkitFullscreenElement?: Element | null; webkitExitFullscreen?: () => Promise<void> | void }
+type WebkitElement = HTMLElement & { webkitRequestFullscreen?: () => Promise<void> | void }
+
+export function isFullscreen(): boolean {
+   const d = document as WebkitDocument
+   return !!(d.fullscreenElement ?? d.webkitFullscreenElement)
+}
+
+export function isFullscreenSupported(): boolean {
+   if (typeof document === 'undefined') return false
+   const el = document.documentElement as WebkitElement
+   return typeof el.requestFullscreen === 'function' || typeof el.webkitRequestFullscreen === 'function'
+}
+
+export async function enterFullscreen(target: HTMLElement = document.documentElement): Promise<void> {
+   if (isFullscreen()) return
+   const el = target as WebkitElement
+   try {
+      await (el.requestFullscreen ? el.requestFullscreen() : el.webkitRequestFullscreen?.())
+   } catch {
+      // 사용자 동작 없이 호출되었거나 브라우저가 거절한 경우: 조용히 무시
+   }
+}
+
+export async function exitFullscreen(): Promise<void> {
+   if (!isFullscreen()) return
+   const d = document as WebkitDocument
+   try {
+      await (d.exitFullscreen ? d.exitFullscreen() : d.webkitExitFullscreen?.())
+   } catch {
+      // 이미 빠져나온 경우 등
+   }
+}
+
+export function toggleFullscreen(target?: HTMLElement): Promise<void> {
+   return isFullscreen() ? exitFullscreen() : enterFullscreen(target)
+}
+
+// Esc 등 브라우저가 직접 전체 화면을 끝낸 경우도 알려 줌
+export function subscribeFullscreen(listener: () => void): () => void {
+   document.addEventListener('fullscreenchange', listener)
+   document.addEventListener('webkitfullscreenchange', listener)
+   return () => {
+      document.removeEventListener('fullscreenchange', listener)
+      document.removeEventListener('webkitfullscreenchange', listener)
+   }
+}
@@ -0,0 +1,65 @@
+// JPEG 이미지를 한 쪽씩 담은 PDF를 만듦(추가 라이브러리 없이 최소한의 PDF 구조만 씀)
+
+export type PdfImagePage = {
+   // 캔버스에서 만든 RGB JPEG
+   jpeg: Blob
+   widthPx: number
+   heightPx: number
+   // 원본 PDF 쪽 크기(pt). 인쇄했을 때 원본과 같은 크기가 되도록
+   widthPt: number
+   heightPt: number
+}
+
+const encoder = new TextEncoder()
+const num = (n: number) => String(Math.round(n * 100) / 100)
+
+export function imagesToPdf(pages: PdfImagePage[]): Blob {
+   const parts: BlobPart[] = []
+   const offsets: number[] = []
+   let length = 0
+
+   const push = (part: string | Blob) => {
+      const bytes = typeof part === 'string' ? encoder.encode(part) : part
+      parts.push(bytes)
+      length += bytes instanceof Blob ? bytes.size : bytes.byteLength
+   }
+   const begin = (id: number) => {
+      offsets[id] = length
+      push(`${id} 0 obj\n`)
+   }
+
+   // 1: 카탈로그, 2: 쪽 목록, 이후 쪽마다 (쪽, 내용, 이미지) 3개씩
+   const pageId = (i: number) => 3 + i * 3
+   const objectCount = 2 + pages.length * 3
+
+   push('%PDF-1.4\n%âãÏÓ\n')
+   begin(1)
+   push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+   begin(2)
+   push(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`)
+
+   pages.forEach((page, i) => {
+      const id = pageId(i)
+      const w = num(page.widthPt)
+      const h = num(page.heightPt)
+      begin(id)
+      push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`)
+
+      const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`
+      begin(id + 1)
+      push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`)
+
+      begin(id + 2)
+      push(`<< /Type /XObject /Subtype /Image /Width ${page.widthPx} /Height ${page.heightPx} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.size} >>\nstream\n`)
+      push(page.jpeg)
+      push('\nendstream\nendobj\n')
+   })
+
+   const xrefAt = length
+   let xref = `xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`
+   for (let id = 1; id <= objectCount; id++) xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+   push(xref)
+   push(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`)
+
+   return new Blob(parts, { type: 'application/pdf' })
+}
@@ -0,0 +1,70 @@
+// PC 뷰어 키보드 단축키. 도움말 목록과 키 판별을 한곳에 모아 둠
+
+export type ShortcutAction = 'prev' | 'next' | 'first' | 'last' | 'zoom-in' | 'zoom-out' | 'zoom-reset' | 'go-to-page' | 'fullscreen' | 'presentation' | 'help'
+
+export type ShortcutHelpEntry = { keys: string[]; label: string }
+
+export const SHORTCUT_HELP: ShortcutHelpEntry[] = [
+   { keys: ['←', 'PageUp'], label: '이전 페이지' },
+   { keys: ['→', 'PageDown'], label: '다음 페이지' },
+   { keys: ['↑', '↓'], label: '이전/다음 페이지(확대 중에는 화면 이동)' },
+   { keys: ['Home', 'End'], label: '처음/마지막 페이지' },
+   { keys: ['+', '-'], label: '확대/축소' },
+   { keys: ['0'], label: '쪽 맞춤(처음 크기)' },
+   { keys: ['Ctrl', '휠'], label: '마우스가 있는 곳을 기준으로 확대/축소' },
+   { keys: ['G'], label: '페이지 번호로 이동' },
+   { keys: ['F'], label: '전체 화면 켜기/끄기' },
+   { keys: ['Space'], label: '누른 채 끌어서 화면 이동(확대 중)' },
+   { keys: ['P'], label: '발표 모드 시작(Space로 자동 넘기기, Esc로 끝내기)' },
+   { keys: ['?'], label: '단축키 도움말' },
+]
+
+// 글자를 입력하는 곳에 포커스가 있으면 단축키를 쓰지 않음(메모·검색 입력 방해 금지)
+export function isEditableTarget(target: EventTarget | null): boolean {
+   if (!(target instanceof HTMLElement)) return false
+   if (target.isContentEditable) return true
+   const tag = target.tagName
+   if (tag === 'TEXTAREA' || tag === 'SELECT') return true
+   if (tag !== 'INPUT') return false
+   const type = (target as HTMLInputElement).type
+   return type !== 'checkbox' && type !== 'radio' && type !== 'button' && type !== 'submit' && type !== 'range'
+}
+
+// zoomed: 확대 중이면 ↑/↓는 브라우저 기본 스크롤에 맡김
+export function shortcutAction(e: KeyboardEvent, { zoomed }: { zoomed: boolean }): ShortcutAction | null {
+   // Ctrl/⌘ 조합은 브라우저 확대·찾기 등과 겹치므로 건드리지 않음
+   if (e.ctrlKey || e.metaKey || e.altKey || e.isComposing) return null
+
+   switch (e.key) {
+      case 'ArrowLeft':
+      case 'PageUp':
+         return 'prev'
+      case 'ArrowRight':
+      case 'PageDown':
+         return 'next'
+      case 'ArrowUp':
+         return zoomed ? null : 'prev'
+      case 'ArrowDown':
+         return zoomed ? null : 'next'
+      case 'Home':
+         return 'first'
+      case 'End':
+         return 'last'
+      case '+':
+      case '=':
+         return 'zoom-in'
+      case '-':
+      case '_':
+         return 'zoom-out'
+      case '0':
+         return 'zoom-reset'
+      case '?':
+         return 'help'
+   }
+   // 한글 자판에서도 같은 자리의 키로 동작하도록 글자 대신 키 위치로 판별
+   if (e.shiftKey) return null
+   if (e.code === 'KeyG') return 'go-to-page'
+   if (e.code === 'KeyF') return 'fullscreen'
+   if (e.code === 'KeyP') return 'presentation'
+   return null
+}
@@ -0,0 +1,25 @@
+// 저사양 안드로이드에서 캔버스 메모리로 탭이 죽지 않도록, 기기 메모리/DPR에 맞춰 예산을 정함
+
+const MB = 1024 * 1024
+
+// 화면 캔버스 + 비트맵 캐시를 합친 전체 예산(바이트)
+export function getPageMemoryBudget() {
+   if (typeof navigator === 'undefined') return 128 * MB
+   // Chrome 계열만 제공(GB 단위, 0.25~8). 없으면 중간값으로 가정
+   const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4
+   if (deviceMemory <= 2) return 64 * MB
+   if (deviceMemory <= 4) return 128 * MB
+   return 256 * MB
+}
+
+// 캔버스 한 장의 백킹스토어 크기(RGBA 4바이트)
+export function pageCanvasBytes(size: { w: number; h: number }, dpr: number) {
+   return Math.ceil(size.w * dpr) * Math.ceil(size.h * dpr) * 4
+}
+
+// 예산 안에서 현재 페이지 앞/뒤로 캔버스를 유지할 수 있는 장수(보이는 스프레드는 항상 유지)
+export function keepWindowForBudget(budgetBytes: number, perPageBytes: number, maxKeep: number) {
+   if (perPageBytes <= 0) return maxKeep
+   const maxCanvases = Math.floor(budgetBytes / perPageBytes)
+   return Math.max(1, Math.min(maxKeep, Math.floor((maxCanvases - 2) / 2)))
+}
@@ -0,0 +1,93 @@
+import { baseNameFromUrl, downloadText } from '@/lib/download'
+import { NOTES_STORE, openDb, requestToPromise, transactionDone } from '@/lib/idb'
+import type { PageRect } from './pageText'
+
+// 형광펜/메모. 책(pdfUrl)별로 IndexedDB에 저장
+
+export type NoteColor = 'yellow' | 'green' | 'blue' | 'pink'
+
+export const NOTE_COLORS: Array<{ color: NoteColor; label: string }> = [
+   { color: 'yellow', label: '노랑' },
+   { color: 'green', label: '초록' },
+   { color: 'blue', label: '파랑' },
+   { color: 'pink', label: '분홍' },
+]
+
+// pdf.js 텍스트 콘텐츠 기준 위치(문자열 item 순번 + item 안의 글자 위치, end는 미포함)
+export type TextAnchor = { item: number; offset: number }
+
+export type NoteHighlight = {
+   start: TextAnchor
+   end: TextAnchor
+   quote: string
+   // 페이지 대비 비율 좌표라 줌과 무관하게 그릴 수 있음
+   rects: PageRect[]
+}
+
+export type PageNote = {
+   id: string
+   book: string
+   pageIndex: number
+   // 쪽 전체에 붙인 메모는 null
+   highlight: NoteHighlight | null
+   color: NoteColor
+   text: string
+   createdAt: number
+   updatedAt: number
+}
+
+export function compareNotes(a: PageNote, b: PageNote) {
+   if (a.pageIndex !== b.pageIndex) return a.pageIndex - b.pageIndex
+   const ai = a.highlight?.start ?? { item: -1, offset: 0 }
+   const bi = b.highlight?.start ?? { item: -1, offset: 0 }
+   return ai.item - bi.item || ai.offset - bi.offset || a.createdAt - b.createdAt
+}
+
+export function newNoteId() {
+   return typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+export async function loadNotes(book: string): Promise<PageNote[]> {
+   const db = await openDb()
+   const tx = db.transaction(NOTES_STORE, 'readonly')
+   const notes = await requestToPromise(tx.objectStore(NOTES_STORE).index('book').getAll(book) as IDBRequest<PageNote[]>)
+   return notes.sort(compareNotes)
+}
+
+export async function putNote(note: PageNote) {
+   const db = await openDb()
+   const tx = db.transaction(NOTES_STORE, 'readwrite')
+   tx.objectStore(NOTES_STORE).put(note)
+   await transactionDone(tx)
+}
+
+export async function deleteNote(id: string) {
+   const db = await openDb()
+   const tx = db.transaction(NOTES_STORE, 'readwrite')
+   tx.objectStore(NOTES_STORE).delete(id)
+   await transactionDone(tx)
+}
+
+export function notesToMarkdown(title: string, notes: PageNote[]) {
+   const lines = [`# ${title} 메모`, '']
+   let page = -1
+   for (const note of notes) {
+      if (note.pageIndex !== page) {
+         page = note.pageIndex
+         lines.push(`## ${page + 1}쪽`, '')
+      }
+      if (note.highlight) lines.push(`> ${note.highlight.quote.replace(/\s+/g, ' ').trim()}`, '')
+      if (note.text.trim()) lines.push(note.text.trim(), '')
+   }
+   return lines.join('\n')
+}
+
+export function downloadNotes(pdfUrl: string, notes: PageNote[], format: 'markdown' | 'json') {
+   const name = baseNameFromUrl(pdfUrl)
+   if (format === 'markdown') {
+      downloadText(`${name}-메모.md`, notesToMarkdown(name, notes), 'text/markdown')
+      return
+   }
+   const data = { version: 1, book: pdfUrl, exportedAt: Date.now(), notes }
+   downloadText(`${name}-메모.json`, JSON.stringify(data, null, 2), 'application/json')
+}
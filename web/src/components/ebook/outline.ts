@@ -0,0 +1,90 @@
+import type { BookTocEntry } from '@/lib/books'
+
+// 목차 항목(0-based 페이지 인덱스). 목적지를 못 찾은 항목은 pageIndex가 null
+export type TocItem = {
+   title: string
+   pageIndex: number | null
+   items: TocItem[]
+}
+
+type OutlineNode = {
+   title: string
+   dest: string | unknown[] | null
+   items?: OutlineNode[]
+}
+
+// pdf.js PDFDocumentProxy 중 목차/목적지 해석에 필요한 부분만
+export type OutlineSource = {
+   getOutline: () => Promise<OutlineNode[] | null>
+   getDestination: (id: string) => Promise<unknown[] | null>
+   getPageIndex: (ref: unknown) => Promise<number>
+}
+
+// named/explicit destination → 0-based 페이지 인덱스
+export async function resolveDestPageIndex(doc: OutlineSource, dest: string | unknown[] | null | undefined): Promise<number | null> {
+   if (!dest) return null
+   try {
+      const explicit = typeof dest === 'string' ? await doc.getDestination(dest) : dest
+      if (!Array.isArray(explicit) || explicit.length === 0) return null
+      const target = explicit[0]
+      // 일부 PDF는 페이지 참조 대신 페이지 인덱스를 직접 담음
+      if (typeof target === 'number') return target
+      if (target && typeof target === 'object') return await doc.getPageIndex(target)
+      return null
+   } catch {
+      return null
+   }
+}
+
+async function toTocItems(doc: OutlineSource, nodes: OutlineNode[]): Promise<TocItem[]> {
+   return Promise.all(
+      nodes.map(async (node) => ({
+         title: node.title,
+         pageIndex: await resolveDestPageIndex(doc, node.dest),
+         items: node.items?.length ? await toTocItems(doc, node.items) : [],
+      }))
+   )
+}
+
+export async function loadOutlineToc(doc: OutlineSource): Promise<TocItem[]> {
+   try {
+      const outline = await doc.getOutline()
+      return outline?.length ? await toTocItems(doc, outline) : []
+   } catch {
+      return []
+   }
+}
+
+// 교재 설정(1-based 쪽 번호)의 목차를 뷰어용으로 변환
+export function tocFromBookConfig(entries: BookTocEntry[]): TocItem[] {
+   return entries.map((e) => ({
+      title: e.title,
+      pageIndex: Math.max(0, e.page - 1),
+      items: e.items?.length ? tocFromBookConfig(e.items) : [],
+   }))
+}
+
+// 현재 페이지가 속한 가장 깊은 목차 항목(목차 순서상 마지막으로 시작한 항목)
+export function findActiveTocItem(items: TocItem[], pageIndex: number): TocItem | null {
+   let active: TocItem | null = null
+   const walk = (list: TocItem[]) => {
+      for (const item of list) {
+         if (item.pageIndex != null && item.pageIndex <= pageIndex) active = item
+         walk(item.items)
+      }
+   }
+   walk(items)
+   return active
+}
+
+export type TocChapter = { title: string; from: number; to: number }
+
+// 인쇄/내려받기용 단원 범위. 맨 위 단계 목차 항목마다 다음 단원 앞쪽까지(0-based, 양끝 포함)
+export function tocChapters(items: TocItem[], numPages: number): TocChapter[] {
+   const starts = items.filter((item): item is TocItem & { pageIndex: number } => item.pageIndex != null).sort((a, b) => a.pageIndex - b.pageIndex)
+   return starts.map((item, i) => {
+      const next = starts[i + 1]
+      const to = next ? Math.max(item.pageIndex, next.pageIndex - 1) : numPages - 1
+      return { title: item.title, from: item.pageIndex, to }
+   })
+}
@@ -0,0 +1,95 @@
+import { resolveDestPageIndex, type OutlineSource } from './outline'
+import type { PageRect, PdfTextViewport } from './pageText'
+
+// pdf.js getAnnotations 결과 중 링크 처리에 필요한 부분만
+type PdfAnnotation = {
+   subtype?: string
+   rect?: number[]
+   url?: string
+   dest?: string | unknown[] | null
+   action?: string
+}
+
+export type AnnotatedPage = {
+   getViewport: (options: { scale: number }) => PdfTextViewport
+   getAnnotations: (params?: { intent?: string }) => Promise<unknown[]>
+}
+
+export type PageLinkSource = OutlineSource & {
+   numPages: number
+   getPage: (pageNumber: number) => Promise<AnnotatedPage>
+}
+
+export type PageLinkTarget = { kind: 'internal'; pageIndex: number } | { kind: 'external'; url: string }
+
+export type PageLink = PageLinkTarget & { rect: PageRect }
+
+// 새 탭으로 열어도 되는 주소만 허용(javascript: 등은 무시)
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:'])
+
+function safeExternalUrl(raw: string | undefined): string | null {
+   if (!raw) return null
+   try {
+      const url = new URL(raw)
+      return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null
+   } catch {
+      return null
+   }
+}
+
+// 이름 있는 동작(다음/이전 쪽 등) → 0-based 페이지 인덱스
+function namedActionPageIndex(action: string, pageIndex: number, numPages: number): number | null {
+   switch (action) {
+      case 'NextPage':
+         return Math.min(numPages - 1, pageIndex + 1)
+      case 'PrevPage':
+         return Math.max(0, pageIndex - 1)
+      case 'FirstPage':
+         return 0
+      case 'LastPage':
+         return numPages - 1
+      default:
+         return null
+   }
+}
+
+async function resolveTarget(doc: PageLinkSource, annotation: PdfAnnotation, pageIndex: number): Promise<PageLinkTarget | null> {
+   const url = safeExternalUrl(annotation.url)
+   if (url) return { kind: 'external', url }
+   if (annotation.dest) {
+      const target = await resolveDestPageIndex(doc, annotation.dest)
+      return target === null ? null : { kind: 'internal', pageIndex: target }
+   }
+   if (annotation.action) {
+      const target = namedActionPageIndex(annotation.action, pageIndex, doc.numPages)
+      return target === null ? null : { kind: 'internal', pageIndex: target }
+   }
+   return null
+}
+
+// 페이지의 링크 주석을 비율 좌표(0~1)와 목적지로 정리. 해석할 수 없는 링크는 버림
+export async function loadPageLinks(doc: PageLinkSource, pageIndex: number): Promise<PageLink[]> {
+   const page = await doc.getPage(pageIndex + 1)
+   const annotations = (await page.getAnnotations({ intent: 'display' })) as PdfAnnotation[]
+   const viewport = page.getViewport({ scale: 1 })
+
+   const links = await Promise.all(
+      annotations
+         .filter((a) => a.subtype === 'Link' && Array.isArray(a.rect) && a.rect.length === 4)
+         .map(async (a): Promise<PageLink | null> => {
+            const target = await resolveTarget(doc, a, pageIndex)
+            if (!target) return null
+            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(a.rect as number[])
+            return {
+               ...target,
+               rect: {
+                  x: Math.min(x1, x2) / viewport.width,
+                  y: Math.min(y1, y2) / viewport.height,
+                  w: Math.abs(x2 - x1) / viewport.width,
+                  h: Math.abs(y2 - y1) / viewport.height,
+               },
+            }
+         })
+   )
+   return links.filter((l): l is PageLink => l !== null)
+}
@@ -0,0 +1,103 @@
+// pdf.js getTextContent 결과를 검색/하이라이트용으로 정리하는 도우미
+
+export type PdfTextItem = {
+   str: string
+   transform: number[]
+   width: number
+   height: number
+   hasEOL?: boolean
+}
+
+export type PdfTextViewport = {
+   width: number
+   height: number
+   convertToViewportRectangle: (rect: number[]) => number[]
+}
+
+export type TextContentPage = {
+   getViewport: (options: { scale: number }) => PdfTextViewport
+   getTextContent: () => Promise<{ items: Array<PdfTextItem | { type: string }> }>
+}
+
+// 페이지 크기 대비 비율(0~1) 좌표. 줌과 무관하게 페이지 위에 그대로 얹을 수 있음
+export type PageRect = {
+   x: number
+   y: number
+   w: number
+   h: number
+}
+
+export type PageText = {
+   items: PdfTextItem[]
+   // 화면 표시용 원문(줄바꿈은 공백 하나로)
+   raw: string
+   // 검색용 정규화 문자열(공백 제거 + NFC + 소문자)
+   normalized: string
+   // normalized의 각 글자가 어느 item의 몇 번째 글자인지, raw의 몇 번째 글자인지
+   charMap: Array<{ item: number; offset: number; raw: number }>
+   viewport: PdfTextViewport
+}
+
+// 한글 자모가 분리(NFD)된 PDF도 있어 항상 NFC로 맞춤
+export function normalizeForSearch(s: string) {
+   return s.normalize('NFC').replace(/\s+/g, '').toLowerCase()
+}
+
+export async function loadPageText(page: TextContentPage): Promise<PageText> {
+   const content = await page.getTextContent()
+   const items = content.items.filter((it): it is PdfTextItem => typeof (it as PdfTextItem).str === 'string')
+
+   let raw = ''
+   let normalized = ''
+   const charMap: PageText['charMap'] = []
+
+   items.forEach((item, itemIndex) => {
+      const str = item.str.normalize('NFC')
+      for (let i = 0; i < str.length; i++) {
+         const ch = str[i]
+         if (!/\s/.test(ch)) {
+            const lowered = ch.toLowerCase()
+            for (let k = 0; k < lowered.length; k++) charMap.push({ item: itemIndex, offset: i, raw: raw.length })
+            normalized += lowered
+         }
+         raw += ch
+      }
+      if (item.hasEOL && !raw.endsWith(' ')) raw += ' '
+   })
+
+   return { items, raw, normalized, charMap, viewport: page.getViewport({ scale: 1 }) }
+}
+
+// normalized 문자열의 [start, end) 구간이 페이지 위에서 차지하는 사각형들(item 단위)
+export function rectsForRange(text: PageText, start: number, end: number): PageRect[] {
+   const byItem = new Map<number, { from: number; to: number }>()
+   for (let i = start; i < end; i++) {
+      const m = text.charMap[i]
+      if (!m) continue
+      const prev = byItem.get(m.item)
+      if (prev) prev.to = Math.max(prev.to, m.offset + 1)
+      else byItem.set(m.item, { from: m.offset, to: m.offset + 1 })
+   }
+
+   const { viewport } = text
+   const rects: PageRect[] = []
+   for (const [itemIndex, range] of byItem) {
+      const item = text.items[itemIndex]
+      const len = Math.max(1, item.str.length)
+      const [, , , , x0, y0] = item.transform
+      // 글자별 폭 정보가 없으므로 item 폭을 글자 수로 균등 분할해 근사
+      const fontH = item.height || Math.hypot(item.transform[2], item.transform[3])
+      const x1 = x0 + (item.width * range.from) / len
+      const x2 = x0 + (item.width * range.to) / len
+      const [vx1, vy1, vx2, vy2] = viewport.convertToViewportRectangle([x1, y0, x2, y0 + fontH])
+      const left = Math.min(vx1, vx2)
+      const top = Math.min(vy1, vy2)
+      rects.push({
+         x: left / viewport.width,
+         y: top / viewport.height,
+         w: Math.abs(vx2 - vx1) / viewport.width,
+         h: Math.abs(vy2 - vy1) / viewport.height,
+      })
+   }
+   return rects
+}
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface PanelProps {
+   title: string
+   onClose: () => void
+   children: ReactNode
+}
+
+// 열린 패널 순서(나중에 열린 것이 위). Esc는 맨 위 패널만 닫음
+const openPanels: object[] = []
+
+// 열리면 패널 안으로 포커스를 옮기고(Esc로 닫기), 닫히면 열었던 버튼으로 되돌림
+function usePanelFocus(onClose: () => void) {
+   const ref = useRef<HTMLDivElement | null>(null)
+   const [token] = useState(() => ({}))
+   // 패널 안의 autoFocus가 먼저 포커스를 가져가므로, 열기 직전 포커스는 렌더 시점에 기억
+   const [opener] = useState(() => (typeof document === 'undefined' ? null : (document.activeElement as HTMLElement | null)))
+
+   useEffect(() => {
+      const el = ref.current
+      if (el && !el.contains(document.activeElement)) el.focus()
+      return () => {
+         if (opener?.isConnected) opener.focus()
+      }
+   }, [opener])
+
+   useEffect(() => {
+      openPanels.push(token)
+      return () => {
+         openPanels.splice(openPanels.indexOf(token), 1)
+      }
+   }, [token])
+
+   useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+         if (e.key === 'Escape' && openPanels[openPanels.length - 1] === token) onClose()
+      }
+      window.addEventListener('keydown', onKeyDown)
+      return () => window.removeEventListener('keydown', onKeyDown)
+   }, [onClose, token])
+
+   return ref
+}
+
+// PC: 왼쪽에서 열리는 서랍형 패널(책 위에 겹쳐 표시)
+export function SidePanel({ title, onClose, children }: PanelProps) {
+   const ref = usePanelFocus(onClose)
+
+   return (
+      <aside ref={ref} tabIndex={-1} aria-label={title} className="fixed inset-y-0 left-0 z-30 flex w-80 max-w-[85vw] flex-col border-r border-zinc-200 bg-white shadow-xl outline-none dark:border-zinc-800 dark:bg-zinc-950">
+         <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3 dark:border-zinc-800">
+            <h2 className="text-base font-semibold md:text-lg">{title}</h2>
+            <Button variant="ghost" className="h-10 w-10 p-0" onClick={onClose} aria-label="닫기">
+               <X className="h-5 w-5" />
+            </Button>
+         </div>
+         <div className="min-h-0 flex-1 overflow-y-auto p-2">{children}</div>
+      </aside>
+   )
+}
+
+// 모바일: 아래에서 올라오는 시트(배경을 누르면 닫힘)
+export function BottomSheet({ title, onClose, children }: PanelProps) {
+   const ref = usePanelFocus(onClose)
+
+   return (
+      <div className="fixed inset-0 z-40 flex flex-col justify-end">
+         <div className="absolute inset-0 bg-black/40" onClick={onClose} aria-hidden="true" />
+         <div ref={ref} tabIndex={-1} role="dialog" aria-modal="true" aria-label={title} className="relative flex max-h-[75dvh] flex-col rounded-t-2xl bg-white shadow-xl outline-none dark:bg-zinc-950">
+            <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3 dark:border-zinc-800">
+               <h2 className="text-base font-semibold">{title}</h2>
+               <Button variant="ghost" className="h-10 w-10 p-0" onClick={onClose} aria-label="닫기">
+                  <X className="h-5 w-5" />
+               </Button>
+            </div>
+            <div className="min-h-0 flex-1 overflow-y-auto p-2 pb-[max(0.5rem,env(safe-area-inset-bottom))]">{children}</div>
+         </div>
+      </div>
+   )
+}
+
+// 화면 가운데 작은 창(배경을 누르거나 Esc로 닫힘)
+export function CenterDialog({ title, onClose, children }: PanelProps) {
+   const ref = usePanelFocus(onClose)
+
+   return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+         <div className="absolute inset-0 bg-black/40" onClick={onClose} aria-hidden="true" />
+         <div ref={ref} tabIndex={-1} role="dialog" aria-modal="true" aria-label={title} className="relative flex max-h-[85dvh] w-full max-w-md flex-col rounded-xl bg-white shadow-xl outline-none dark:bg-zinc-950">
+            <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3 dark:border-zinc-800">
+               <h2 className="text-base font-semibold md:text-lg">{title}</h2>
+               <Button variant="ghost" className="h-10 w-10 p-0" onClick={onClose} aria-label="닫기">
+                  <X className="h-5 w-5" />
+               </Button>
+            </div>
+            <div className="min-h-0 flex-1 overflow-y-auto p-4">{children}</div>
+         </div>
+      </div>
+   )
+}
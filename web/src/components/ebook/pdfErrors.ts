@@ -0,0 +1,82 @@
+// PDF 로드 실패 원인 분류. 화면에는 원인별 안내 문구를 보여주고, 일시적인 네트워크 오류만 자동 재시도
+
+export type PdfErrorKind = 'network' | 'not-found' | 'invalid-pdf' | 'password' | 'unsupported-browser' | 'worker' | 'unknown'
+
+export type PdfLoadError = {
+   kind: PdfErrorKind
+   // 사용자에게 보여줄 안내(어르신도 이해할 수 있게)
+   title: string
+   description: string
+   // 잠시 뒤 다시 시도하면 나아질 수 있는 오류인지
+   transient: boolean
+}
+
+const MESSAGES: Record<PdfErrorKind, Omit<PdfLoadError, 'kind' | 'transient'>> = {
+   network: {
+      title: '인터넷 연결이 불안정해요',
+      description: '와이파이나 데이터 연결을 확인한 뒤 다시 시도해 주세요.',
+   },
+   'not-found': {
+      title: '교재 파일을 찾을 수 없어요',
+      description: '교재가 옮겨졌거나 삭제되었을 수 있어요. 교육원에 문의해 주세요.',
+   },
+   'invalid-pdf': {
+      title: '교재 파일이 손상되었어요',
+      description: '파일을 열 수 없어요. 잠시 후 다시 시도하거나 교육원에 문의해 주세요.',
+   },
+   password: {
+      title: '비밀번호가 필요한 교재예요',
+      description: '다시 시도를 누르고 교육원에서 받은 비밀번호를 입력해 주세요.',
+   },
+   'unsupported-browser': {
+      title: '이 브라우저에서는 교재를 열 수 없어요',
+      description: '크롬, 사파리, 엣지 같은 최신 브라우저로 열거나 브라우저를 업데이트해 주세요.',
+   },
+   worker: {
+      title: '책을 보여주는 기능을 불러오지 못했어요',
+      description: '페이지를 새로 고치거나 잠시 후 다시 시도해 주세요.',
+   },
+   unknown: {
+      title: '교재를 불러오지 못했어요',
+      description: '잠시 후 다시 시도해 주세요. 문제가 계속되면 교육원에 문의해 주세요.',
+   },
+}
+
+export function pdfLoadError(kind: PdfErrorKind): PdfLoadError {
+   return { kind, ...MESSAGES[kind], transient: kind === 'network' }
+}
+
+// pdf.js 구동에 꼭 필요한 기능. 없으면 로드를 시도하지 않고 바로 안내
+export function detectUnsupportedBrowser(): boolean {
+   if (typeof window === 'undefined') return false
+   return typeof Worker === 'undefined' || typeof ReadableStream === 'undefined' || typeof Promise === 'undefined' || !('CanvasRenderingContext2D' in window)
+}
+
+const NETWORK_MESSAGE = /failed to fetch|networkerror|network error|load failed|network request failed|err_internet_disconnected/i
+
+type ErrorLike = { name?: string; message?: string; status?: number; missing?: boolean }
+
+// stage: pdf.js 모듈 import 중인지, 문서를 여는 중인지(같은 메시지라도 원인이 다름)
+export function classifyPdfError(error: unknown, stage: 'module' | 'document'): PdfLoadError {
+   const e = (error && typeof error === 'object' ? error : {}) as ErrorLike
+   const name = e.name ?? ''
+   const message = e.message ?? String(error ?? '')
+   const offline = typeof navigator !== 'undefined' && navigator.onLine === false
+
+   if (name === 'ResponseException' || name === 'MissingPDFException' || name === 'UnexpectedResponseException') {
+      if (e.missing || e.status === 404 || e.status === 410) return pdfLoadError('not-found')
+      // 0(연결 실패), 408/429, 5xx는 잠시 뒤 나아질 수 있음
+      const status = e.status ?? 0
+      return status === 0 || status === 408 || status === 429 || status >= 500 ? pdfLoadError('network') : pdfLoadError('unknown')
+   }
+   if (offline) return pdfLoadError('network')
+   if (stage === 'module') {
+      // 오래된 브라우저는 최신 문법의 pdf.mjs를 해석하지 못해 SyntaxError가 남
+      return name === 'SyntaxError' ? pdfLoadError('unsupported-browser') : pdfLoadError('worker')
+   }
+   if (NETWORK_MESSAGE.test(message)) return pdfLoadError('network')
+   if (name === 'PasswordException') return pdfLoadError('password')
+   if (name === 'InvalidPDFException' || name === 'FormatError' || /invalid pdf|pdf header|xref/i.test(message)) return pdfLoadError('invalid-pdf')
+   if (/fake worker|worker/i.test(message)) return pdfLoadError('worker')
+   return pdfLoadError('unknown')
+}
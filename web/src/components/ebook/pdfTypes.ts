@@ -0,0 +1,26 @@
+import type { OutlineSource } from './outline'
+import type { AnnotatedPage } from './pageLinks'
+import type { TextContentPage } from './pageText'
+
+// 뷰어가 쓰는 pdf.js 객체의 최소 형태(public/pdfjs에서 런타임 import 하므로 필요한 부분만 타입으로 선언)
+export type PdfRenderViewport = { width: number; height: number }
+
+export type PdfPage = TextContentPage & AnnotatedPage & {
+   render: (params: { canvasContext: CanvasRenderingContext2D; viewport: PdfRenderViewport }) => { promise: Promise<void>; cancel: () => void }
+}
+
+export type PdfDocument = OutlineSource & {
+   numPages: number
+   getPage: (pageNumber: number) => Promise<PdfPage>
+}
+
+export type PageFlipApi = {
+   pageFlip: () => {
+      flipNext: () => void
+      flipPrev: () => void
+      turnToPage: (pageIndex: number) => void
+      getCurrentPageIndex: () => number
+   }
+}
+
+export type PageSize = { w: number; h: number }
@@ -0,0 +1,33 @@
+export type PdfjsTextLayer = {
+   render: () => Promise<void>
+   update: (params: { viewport: unknown }) => void
+   cancel: () => void
+   // 텍스트 item(문자열이 있는 것만) 순서대로 만들어진 span
+   textDivs: HTMLElement[]
+}
+
+type PdfjsModule = {
+   getDocument: typeof import('pdfjs-dist').getDocument
+   GlobalWorkerOptions: { workerSrc: string }
+   TextLayer: new (params: { textContentSource: unknown; container: HTMLElement; viewport: unknown }) => PdfjsTextLayer
+}
+
+let pdfjsPromise: Promise<PdfjsModule> | null = null
+
+// Webpack 번들링을 피하기 위해(해당 경로에서 runtime 에러 발생) public 에서 네이티브 import로 로드
+export function loadPdfjs() {
+   if (!pdfjsPromise) {
+      pdfjsPromise = (async () => {
+         // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+         // @ts-ignore - webpackIgnore 주석은 번들러 힌트이며 TS 타입은 d.ts로 보강
+         const pdfjs = (await import(/* webpackIgnore: true */ '/pdfjs/pdf.mjs')) as unknown as PdfjsModule
+         pdfjs.GlobalWorkerOptions.workerSrc = '/pdfjs/pdf.worker.min.mjs'
+         return pdfjs
+      })()
+      // 실패하면 다음 시도에서 다시 import
+      pdfjsPromise.catch(() => {
+         pdfjsPromise = null
+      })
+   }
+   return pdfjsPromise
+}
@@ -0,0 +1,110 @@
+import { baseNameFromUrl, downloadBlob } from '@/lib/download'
+import { imagesToPdf, type PdfImagePage } from './imagePdf'
+import type { RenderSource } from './renderEngine'
+
+// 인쇄/내려받기용 렌더. 화면 캔버스(기기 DPR 기준)와 따로, 인쇄 해상도로 한 장씩 그려 JPEG로만 보관
+
+const PRINT_DPI = 200
+// 아주 큰 판형도 캔버스 한계를 넘지 않게
+const MAX_PRINT_SIDE_PX = 4096
+const JPEG_QUALITY = 0.9
+// 한 번에 인쇄/내려받기 할 수 있는 쪽 수(저사양 기기 메모리 보호)
+export const MAX_PRINT_PAGES = 60
+// 인쇄 창이 닫혔다는 신호(afterprint)를 못 받는 브라우저용 정리 시간
+const PRINT_CLEANUP_MS = 10 * 60 * 1000
+
+export type PrintProgress = { done: number; total: number }
+
+type PrintOptions = {
+   signal?: AbortSignal
+   onProgress?: (progress: PrintProgress) => void
+}
+
+async function renderPrintPage(doc: RenderSource, pageIndex: number): Promise<PdfImagePage> {
+   const page = await doc.getPage(pageIndex + 1)
+   const vp1 = page.getViewport({ scale: 1 })
+   const scale = Math.min(PRINT_DPI / 72, MAX_PRINT_SIDE_PX / Math.max(vp1.width, vp1.height))
+   const viewport = page.getViewport({ scale })
+
+   const canvas = document.createElement('canvas')
+   canvas.width = Math.floor(viewport.width)
+   canvas.height = Math.floor(viewport.height)
+   const ctx = canvas.getContext('2d', { alpha: false })
+   if (!ctx) throw new Error('canvas 2d context unavailable')
+
+   try {
+      // JPEG에는 투명이 없으므로 흰 종이로 깔고 그림
+      ctx.fillStyle = '#fff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      await page.render({ canvasContext: ctx, viewport }).promise
+      const jpeg = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY))
+      if (!jpeg) throw new Error('canvas toBlob failed')
+      return { jpeg, widthPx: canvas.width, heightPx: canvas.height, widthPt: vp1.width, heightPt: vp1.height }
+   } finally {
+      // 임시 캔버스 백킹스토어 즉시 해제
+      canvas.width = 0
+      canvas.height = 0
+   }
+}
+
+async function renderPrintPages(doc: RenderSource, pageIndexes: number[], { signal, onProgress }: PrintOptions): Promise<PdfImagePage[]> {
+   const pages: PdfImagePage[] = []
+   onProgress?.({ done: 0, total: pageIndexes.length })
+   for (const pageIndex of pageIndexes) {
+      signal?.throwIfAborted()
+      pages.push(await renderPrintPage(doc, pageIndex))
+      onProgress?.({ done: pages.length, total: pageIndexes.length })
+   }
+   signal?.throwIfAborted()
+   return pages
+}
+
+// 화면과 분리된 숨은 iframe에 쪽 이미지만 담아 인쇄(종이 한 장에 한 쪽)
+export async function printPageRange(doc: RenderSource, pageIndexes: number[], options: PrintOptions = {}): Promise<void> {
+   const pages = await renderPrintPages(doc, pageIndexes, options)
+   const urls = pages.map((p) => URL.createObjectURL(p.jpeg))
+
+   const iframe = document.createElement('iframe')
+   iframe.setAttribute('aria-hidden', 'true')
+   iframe.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden'
+
+   let cleanupTimer = 0
+   const cleanup = () => {
+      window.clearTimeout(cleanupTimer)
+      iframe.remove()
+      urls.forEach((url) => URL.revokeObjectURL(url))
+   }
+
+   const loaded = new Promise<void>((resolve) => iframe.addEventListener('load', () => resolve(), { once: true }))
+   iframe.srcdoc = `<!doctype html><html><head><meta charset="utf-8"><style>
+@page { margin: 0 }
+html, body { margin: 0; padding: 0 }
+img { display: block; width: 100%; height: 100vh; object-fit: contain; break-after: page }
+img:last-child { break-after: auto }
+</style></head><body>${urls.map((url) => `<img src="${url}" alt="">`).join('')}</body></html>`
+   document.body.appendChild(iframe)
+
+   try {
+      await loaded
+      const win = iframe.contentWindow
+      if (!win) throw new Error('print frame unavailable')
+      await Promise.all(Array.from(win.document.images).map((img) => img.decode().catch(() => {})))
+      options.signal?.throwIfAborted()
+      win.addEventListener('afterprint', cleanup, { once: true })
+      cleanupTimer = window.setTimeout(cleanup, PRINT_CLEANUP_MS)
+      win.focus()
+      win.print()
+   } catch (e) {
+      cleanup()
+      throw e
+   }
+}
+
+// 고른 쪽만 담은 PDF로 내려받기(파일명: 교재이름-12-30쪽.pdf)
+export async function downloadPageRange(doc: RenderSource, pageIndexes: number[], pdfUrl: string, options: PrintOptions = {}): Promise<void> {
+   const pages = await renderPrintPages(doc, pageIndexes, options)
+   const first = pageIndexes[0] + 1
+   const last = pageIndexes[pageIndexes.length - 1] + 1
+   const range = first === last ? `${first}쪽` : `${first}-${last}쪽`
+   downloadBlob(`${baseNameFromUrl(pdfUrl)}-${range}.pdf`, imagesToPdf(pages))
+}
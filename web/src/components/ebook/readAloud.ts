@@ -0,0 +1,77 @@
+import { rectsForRange, type PageRect, type PageText } from './pageText'
+
+// 소리 내어 읽기(Web Speech API) 도우미: 한국어 음성 고르기, 페이지 글을 문장 단위로 나누기
+
+export type SpeechSentence = {
+   text: string
+   // 읽는 동안 강조할 자리(페이지 비율 좌표)
+   rects: PageRect[]
+}
+
+export const SPEECH_RATES = [0.8, 1, 1.2, 1.5] as const
+
+// 한 번에 읽기엔 너무 긴 문장(표, 문장부호 없는 글)은 쪼갬. 크롬은 긴 발화를 중간에 끊는 경우가 있음
+const MAX_SENTENCE_LENGTH = 160
+
+export function isSpeechSupported(): boolean {
+   return typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined'
+}
+
+// ko-KR 우선, 같은 조건이면 기기 내장(오프라인에서도 동작) 음성
+export function pickKoreanVoice(voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | null {
+   const korean = voices.filter((v) => v.lang.replace('_', '-').toLowerCase().startsWith('ko'))
+   if (korean.length === 0) return null
+   const score = (v: SpeechSynthesisVoice) => (v.lang.replace('_', '-').toLowerCase() === 'ko-kr' ? 2 : 0) + (v.localService ? 1 : 0)
+   return [...korean].sort((a, b) => score(b) - score(a))[0]
+}
+
+// 문장 경계(raw 기준 [start, end)). Intl.Segmenter가 없으면 문장부호로 나눔
+function sentenceRanges(raw: string): Array<[number, number]> {
+   const ranges: Array<[number, number]> = []
+   if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+      const segmenter = new Intl.Segmenter('ko', { granularity: 'sentence' })
+      for (const seg of segmenter.segment(raw)) ranges.push([seg.index, seg.index + seg.segment.length])
+      return ranges
+   }
+   const re = /[^.!?。？！…]+(?:[.!?。？！…]+["'”’)\]]*|$)/g
+   for (let m = re.exec(raw); m; m = re.exec(raw)) {
+      if (m[0].length === 0) {
+         re.lastIndex++
+         continue
+      }
+      ranges.push([m.index, m.index + m[0].length])
+   }
+   return ranges
+}
+
+// 긴 구간은 MAX_SENTENCE_LENGTH 안쪽의 마지막 공백에서 자름
+function splitLong(raw: string, [start, end]: [number, number]): Array<[number, number]> {
+   const parts: Array<[number, number]> = []
+   let from = start
+   while (end - from > MAX_SENTENCE_LENGTH) {
+      const cut = raw.lastIndexOf(' ', from + MAX_SENTENCE_LENGTH)
+      const to = cut > from ? cut + 1 : from + MAX_SENTENCE_LENGTH
+      parts.push([from, to])
+      from = to
+   }
+   parts.push([from, end])
+   return parts
+}
+
+export function splitSentences(text: PageText): SpeechSentence[] {
+   const sentences: SpeechSentence[] = []
+   // charMap은 raw 순서대로라 앞에서부터 한 번만 훑음
+   let cursor = 0
+   for (const range of sentenceRanges(text.raw)) {
+      for (const [start, end] of splitLong(text.raw, range)) {
+         const sentence = text.raw.slice(start, end).trim()
+         while (cursor < text.charMap.length && text.charMap[cursor].raw < start) cursor++
+         const from = cursor
+         while (cursor < text.charMap.length && text.charMap[cursor].raw < end) cursor++
+         // 글자(공백 제외)가 없으면 읽을 것이 없음
+         if (!sentence || cursor === from) continue
+         sentences.push({ text: sentence, rects: rectsForRange(text, from, cursor) })
+      }
+   }
+   return sentences
+}
@@ -0,0 +1,298 @@
+import { createBitmapCache, type CachedPageImage } from './bitmapCache'
+import type { PageSize, PdfRenderViewport } from './pdfTypes'
+
+// React와 무관한 페이지 렌더 엔진. 문서/캔버스 조회/프레임 대기를 바깥에서 넘겨받음(데스크톱/모바일이 함께 사용)
+//  - 우선순위 큐: 현재 페이지 → 가까운 페이지 순(같은 거리면 앞으로 넘길 쪽 우선)
+//  - 취소: 크기가 바뀌면 진행 중 렌더를 취소하고 세대(generation)를 올려 늦게 끝난 작업을 버림
+//  - 렌더 창: 현재 페이지 앞뒤 before/after 장만 그림
+//  - 비트맵 캐시: 줌이 바뀌면 기존 비트맵을 늘려서 즉시 보여주고, 선명한 렌더는 뒤에서 교체(흰 화면 방지)
+
+export type RenderablePage = {
+   getViewport: (options: { scale: number }) => PdfRenderViewport
+   render: (params: { canvasContext: CanvasRenderingContext2D; viewport: PdfRenderViewport }) => { promise: Promise<void>; cancel: () => void }
+}
+
+export type RenderSource = {
+   numPages: number
+   getPage: (pageNumber: number) => Promise<RenderablePage>
+}
+
+export type RenderWindow = { before: number; after: number }
+
+export type PageRenderEngineOptions = {
+   doc: RenderSource
+   // 0-based 페이지 인덱스의 캔버스(아직 DOM에 없으면 null)
+   getCanvas: (pageIndex: number) => HTMLCanvasElement | null
+   getDevicePixelRatio?: () => number
+   nextFrame?: () => Promise<void>
+   // 다다다닥 넘길 때 렌더를 모아서(애니메이션 이후) 한 번만 수행
+   debounceMs?: number
+   // 비트맵 캐시 메모리 예산(바이트)
+   bitmapBudgetBytes?: number
+   createCanvas?: () => HTMLCanvasElement
+   onPageRendered?: (pageIndex: number) => void
+}
+
+const defaultNextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()))
+const defaultCreateCanvas = () => document.createElement('canvas')
+
+// 렌더에 쓴 임시 캔버스를 캐시용 이미지로(ImageBitmap 미지원 브라우저는 캔버스 자체를 보관)
+async function toCacheImage(canvas: HTMLCanvasElement): Promise<ImageBitmap | HTMLCanvasElement> {
+   if (typeof createImageBitmap !== 'function') return canvas
+   try {
+      const bitmap = await createImageBitmap(canvas)
+      canvas.width = 0
+      canvas.height = 0
+      return bitmap
+   } catch {
+      return canvas
+   }
+}
+
+// 캐시 이미지를 화면 캔버스에 옮김. 크기 변경(=캔버스 초기화)과 그리기를 한 번에 해서 빈 프레임이 보이지 않음
+function blit(canvas: HTMLCanvasElement, entry: CachedPageImage, size: PageSize) {
+   if (canvas.width !== entry.width) canvas.width = entry.width
+   if (canvas.height !== entry.height) canvas.height = entry.height
+   if (canvas.style.width !== `${size.w}px`) canvas.style.width = `${size.w}px`
+   if (canvas.style.height !== `${size.h}px`) canvas.style.height = `${size.h}px`
+   const ctx = canvas.getContext('2d', { alpha: false })
+   if (!ctx) return
+   ctx.drawImage(entry.image, 0, 0)
+   canvas.dataset.sizeKey = entry.key
+}
+
+export function isRenderCancelled(e: unknown) {
+   const err = e as { name?: unknown; message?: unknown } | null
+   return err?.name === 'RenderingCancelledException' || (typeof err?.message === 'string' && err.message.includes('Rendering cancelled'))
+}
+
+// 현재 페이지에서 가까운 순으로 정렬된 렌더 대상(0-based)
+export function windowPriority(current: number, numPages: number, { before, after }: RenderWindow): number[] {
+   const order: number[] = []
+   const maxDist = Math.max(before, after)
+   for (let d = 0; d <= maxDist; d++) {
+      if (d <= after && current + d < numPages) order.push(current + d)
+      if (d > 0 && d <= before && current - d >= 0) order.push(current - d)
+   }
+   return order
+}
+
+// 줌 시 글자가 뭉개지지 않게 DPR을 줌에 맞춰 올리되, 상한을 둠(메모리 폭주 방지)
+export function renderDpr(devicePixelRatio: number, zoom: number) {
+   const baseDpr = Math.max(1, devicePixelRatio || 1)
+   return Math.min(3, baseDpr * Math.min(1.6, zoom))
+}
+
+export function createPageRenderEngine({
+   doc,
+   getCanvas,
+   getDevicePixelRatio = () => window.devicePixelRatio || 1,
+   nextFrame = defaultNextFrame,
+   debounceMs = 160,
+   bitmapBudgetBytes = 160 * 1024 * 1024,
+   createCanvas = defaultCreateCanvas,
+   onPageRendered,
+}: PageRenderEngineOptions) {
+   // 현재 sizeKey 해상도로 화면 캔버스에 그려진 페이지
+   const rendered = new Set<number>()
+   const cache = createBitmapCache(bitmapBudgetBytes)
+   const inflight = new Map<number, { cancel: () => void }>()
+   let queue: number[] = []
+   let size: PageSize | null = null
+   let zoom = 1
+   let sizeKey: string | null = null
+   let current = 0
+   let renderWindow: RenderWindow = { before: 2, after: 4 }
+   let generation = 0
+   let pumping = false
+   let disposed = false
+   let timer: ReturnType<typeof setTimeout> | null = null
+
+   const cancelInflight = () => {
+      for (const task of inflight.values()) task.cancel()
+      inflight.clear()
+   }
+
+   const waitForCanvas = async (pageIndex: number, gen: number, maxFrames = 180) => {
+      // react-pageflip이 DOM을 늦게 구성하는 경우가 있어, ref가 붙을 때까지 잠시 대기
+      for (let i = 0; i < maxFrames; i++) {
+         if (disposed || gen !== generation) return null
+         const c = getCanvas(pageIndex)
+         if (c) return c
+         await nextFrame()
+      }
+      return null
+   }
+
+   // 캐시에 있는 가장 가까운 해상도를 바로 보여줌. 현재 해상도와 같으면 다시 그릴 필요 없음
+   const present = (pageIndex: number) => {
+      if (!size) return
+      const canvas = getCanvas(pageIndex)
+      if (!canvas) return
+      const entry = cache.best(pageIndex, sizeKey)
+      if (!entry) return
+      if (canvas.dataset.sizeKey !== entry.key || canvas.width !== entry.width) blit(canvas, entry, size)
+      else if (canvas.style.width !== `${size.w}px`) {
+         canvas.style.width = `${size.w}px`
+         canvas.style.height = `${size.h}px`
+      }
+      if (entry.key === sizeKey) rendered.add(pageIndex)
+   }
+
+   const presentAll = () => {
+      for (let i = 0; i < doc.numPages; i++) present(i)
+   }
+
+   const renderOne = async (pageIndex: number) => {
+      if (!size || rendered.has(pageIndex) || inflight.has(pageIndex)) return
+      const gen = generation
+      const target = size
+      const key = sizeKey as string
+
+      const dpr = renderDpr(getDevicePixelRatio(), zoom)
+
+      if (!(await waitForCanvas(pageIndex, gen))) return
+
+      let task: ReturnType<RenderablePage['render']> | null = null
+      try {
+         const page = await doc.getPage(pageIndex + 1)
+         if (disposed || gen !== generation) return
+
+         const vp1 = page.getViewport({ scale: 1 })
+         const scale = target.w / vp1.width
+         const viewport = page.getViewport({ scale: scale * dpr })
+
+         // 화면 캔버스는 그대로 두고 임시 캔버스에 그린 뒤 한 번에 교체
+         const scratch = createCanvas()
+         scratch.width = Math.floor(viewport.width)
+         scratch.height = Math.floor(viewport.height)
+         const ctx = scratch.getContext('2d', { alpha: false })
+         if (!ctx) return
+
+         task = page.render({ canvasContext: ctx, viewport })
+         inflight.set(pageIndex, task)
+         await task.promise
+         if (disposed || gen !== generation) {
+            scratch.width = 0
+            scratch.height = 0
+            return
+         }
+         const image = await toCacheImage(scratch)
+         const entry = cache.put(pageIndex, key, image)
+         if (disposed || gen !== generation) return
+         // 렌더 중 플립북이 다시 마운트됐을 수 있으므로 캔버스를 다시 조회
+         const canvas = getCanvas(pageIndex)
+         if (canvas) blit(canvas, entry, target)
+         rendered.add(pageIndex)
+         onPageRendered?.(pageIndex)
+      } catch (e) {
+         // 빠른 넘김/리렌더 과정의 취소, 문서가 닫히거나(새 문서로 교체) 크기가 바뀐 뒤의 실패는 정상 케이스라 조용히 무시
+         if (disposed || gen !== generation || isRenderCancelled(e)) return
+         // eslint-disable-next-line no-console
+         console.error(`[EbookFlipbook] render error (page ${pageIndex + 1}):`, e)
+      } finally {
+         if (task && inflight.get(pageIndex) === task) inflight.delete(pageIndex)
+      }
+   }
+
+   const pump = async () => {
+      if (pumping) return
+      pumping = true
+      try {
+         while (!disposed && queue.length > 0) {
+            const next = queue.shift() as number
+            await renderOne(next)
+         }
+      } finally {
+         pumping = false
+      }
+   }
+
+   const rebuildQueue = () => {
+      if (!size || doc.numPages <= 0) {
+         queue = []
+         return
+      }
+      const clamped = Math.max(0, Math.min(doc.numPages - 1, current))
+      queue = windowPriority(clamped, doc.numPages, renderWindow).filter((p) => !rendered.has(p))
+   }
+
+   const flush = () => {
+      if (disposed) return
+      if (timer) clearTimeout(timer)
+      timer = null
+      rebuildQueue()
+      return pump()
+   }
+
+   const schedule = () => {
+      if (disposed) return
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => void flush(), debounceMs)
+   }
+
+   // 줌/리사이즈로 페이지 크기가 바뀌면: 캔버스를 지우지 않고 기존 비트맵을 새 크기로 늘려 보여준 뒤 다시 그림
+   const setSize = (nextSize: PageSize, nextZoom: number) => {
+      const nextKey = `${Math.round(nextSize.w)}x${Math.round(nextSize.h)}@${nextZoom.toFixed(2)}`
+      size = nextSize
+      zoom = nextZoom
+      if (nextKey !== sizeKey) {
+         sizeKey = nextKey
+         generation++
+         cancelInflight()
+         rendered.clear()
+         presentAll()
+      }
+      schedule()
+   }
+
+   const setWindow = (pageIndex: number, nextWindow: RenderWindow = renderWindow) => {
+      current = pageIndex
+      renderWindow = nextWindow
+      schedule()
+   }
+
+   // 캔버스가 새로 마운트된 경우 등, 크기는 같지만 화면을 다시 채워야 할 때(캐시로 먼저 채우고 빠진 것만 렌더)
+   const invalidate = () => {
+      generation++
+      cancelInflight()
+      rendered.clear()
+      presentAll()
+      schedule()
+   }
+
+   // 가상화로 캔버스가 다시 붙으면 캐시로 먼저 채우고, 현재 해상도가 아니면 렌더 예약
+   const attach = (pageIndex: number) => {
+      present(pageIndex)
+      if (!rendered.has(pageIndex)) schedule()
+   }
+
+   // 캔버스가 해제되면(렌더 창 밖) 다음에 돌아올 때 다시 채우도록 표시만 지움
+   const detach = (pageIndex: number) => {
+      rendered.delete(pageIndex)
+      inflight.get(pageIndex)?.cancel()
+   }
+
+   const dispose = () => {
+      disposed = true
+      if (timer) clearTimeout(timer)
+      cancelInflight()
+      queue = []
+      cache.clear()
+   }
+
+   return {
+      setSize,
+      setWindow,
+      schedule,
+      flush,
+      invalidate,
+      present,
+      attach,
+      detach,
+      dispose,
+      isRendered: (pageIndex: number) => rendered.has(pageIndex),
+   }
+}
+
+export type PageRenderEngine = ReturnType<typeof createPageRenderEngine>
@@ -0,0 +1,77 @@
+import { loadPageText, normalizeForSearch, rectsForRange, type PageRect, type PageText, type TextContentPage } from './pageText'
+
+export type TextSearchSource = {
+   numPages: number
+   getPage: (pageNumber: number) => Promise<TextContentPage>
+}
+
+export type SearchHit = {
+   pageIndex: number
+   before: string
+   match: string
+   after: string
+   rects: PageRect[]
+}
+
+type SearchOptions = {
+   signal?: AbortSignal
+   onProgress?: (scanned: number, total: number) => void
+   maxHits?: number
+}
+
+const SNIPPET_CONTEXT = 24
+
+// 책 전체 텍스트 인덱스. 페이지 텍스트는 처음 검색할 때 한 번만 추출해 캐시(지연 구축)
+export function createTextSearchIndex(doc: TextSearchSource) {
+   const pages = new Map<number, Promise<PageText>>()
+
+   const getPageText = (pageIndex: number) => {
+      let p = pages.get(pageIndex)
+      if (!p) {
+         p = doc.getPage(pageIndex + 1).then(loadPageText)
+         // 실패한 페이지는 다음 검색에서 다시 시도
+         p.catch(() => pages.delete(pageIndex))
+         pages.set(pageIndex, p)
+      }
+      return p
+   }
+
+   const search = async (query: string, { signal, onProgress, maxHits = 500 }: SearchOptions = {}): Promise<SearchHit[]> => {
+      const needle = normalizeForSearch(query)
+      if (!needle) return []
+
+      const hits: SearchHit[] = []
+      for (let i = 0; i < doc.numPages; i++) {
+         if (signal?.aborted) break
+         let text: PageText
+         try {
+            text = await getPageText(i)
+         } catch {
+            continue
+         }
+
+         let from = text.normalized.indexOf(needle)
+         while (from >= 0 && hits.length < maxHits) {
+            const to = from + needle.length
+            const rawStart = text.charMap[from].raw
+            const rawEnd = text.charMap[to - 1].raw + 1
+            hits.push({
+               pageIndex: i,
+               before: text.raw.slice(Math.max(0, rawStart - SNIPPET_CONTEXT), rawStart).trimStart(),
+               match: text.raw.slice(rawStart, rawEnd),
+               after: text.raw.slice(rawEnd, rawEnd + SNIPPET_CONTEXT).trimEnd(),
+               rects: rectsForRange(text, from, to),
+            })
+            from = text.normalized.indexOf(needle, to)
+         }
+
+         onProgress?.(i + 1, doc.numPages)
+         if (hits.length >= maxHits) break
+      }
+      return hits
+   }
+
+   return { getPageText, search }
+}
+
+export type TextSearchIndex = ReturnType<typeof createTextSearchIndex>
@@ -0,0 +1,77 @@
+import type { NoteHighlight, TextAnchor } from './notes'
+import type { PageRect } from './pageText'
+
+// 텍스트 레이어(PageTextLayer)에서 고른 글자를 pdf.js 텍스트 콘텐츠 위치로 바꾸는 도우미.
+// 레이어는 data-page-index, 글자 span은 data-item(텍스트 item 순번)을 달고 있음
+
+export type TextSelectionInfo = {
+   pageIndex: number
+   highlight: NoteHighlight
+   // 선택 영역의 화면 좌표(도구 막대 위치용)
+   clientRect: DOMRect
+}
+
+function itemSpanOf(node: Node | null): HTMLElement | null {
+   const el = node instanceof HTMLElement ? node : node?.parentElement
+   return el?.closest<HTMLElement>('[data-item]') ?? null
+}
+
+// Range 경계(컨테이너+오프셋)를 item/글자 위치로. 요소 경계면 가장 가까운 글자 span으로 맞춤
+function toAnchor(container: Node, offset: number, edge: 'start' | 'end'): TextAnchor | null {
+   if (container.nodeType === Node.TEXT_NODE) {
+      const span = itemSpanOf(container)
+      return span ? { item: Number(span.dataset.item), offset } : null
+   }
+   const el = container as HTMLElement
+   const spans = Array.from(el.querySelectorAll<HTMLElement>('[data-item]'))
+   const own = itemSpanOf(el)
+   if (own) return { item: Number(own.dataset.item), offset: edge === 'start' && offset === 0 ? 0 : (own.textContent ?? '').length }
+   if (spans.length === 0) return null
+   // offset번째 자식 앞이 경계. 시작은 그 뒤 첫 글자, 끝은 그 앞 마지막 글자
+   const child = el.childNodes[offset] ?? null
+   if (edge === 'start') {
+      const next = child ? spans.find((s) => child === s || child.contains(s) || !!(child.compareDocumentPosition(s) & Node.DOCUMENT_POSITION_FOLLOWING)) : null
+      return next ? { item: Number(next.dataset.item), offset: 0 } : null
+   }
+   const prev = [...spans].reverse().find((s) => !child || !!(child.compareDocumentPosition(s) & Node.DOCUMENT_POSITION_PRECEDING))
+   return prev ? { item: Number(prev.dataset.item), offset: (prev.textContent ?? '').length } : null
+}
+
+// 현재 선택이 한 페이지의 텍스트 레이어 안에 있을 때만 정보를 돌려줌
+export function readTextSelection(): TextSelectionInfo | null {
+   const selection = typeof window !== 'undefined' ? window.getSelection() : null
+   if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null
+   const range = selection.getRangeAt(0)
+   const startLayer = (range.startContainer instanceof HTMLElement ? range.startContainer : range.startContainer.parentElement)?.closest<HTMLElement>('.textLayer[data-page-index]')
+   const endLayer = (range.endContainer instanceof HTMLElement ? range.endContainer : range.endContainer.parentElement)?.closest<HTMLElement>('.textLayer[data-page-index]')
+   if (!startLayer || startLayer !== endLayer) return null
+
+   const start = toAnchor(range.startContainer, range.startOffset, 'start')
+   const end = toAnchor(range.endContainer, range.endOffset, 'end')
+   const quote = selection.toString().trim()
+   if (!start || !end || !quote) return null
+
+   const box = startLayer.getBoundingClientRect()
+   if (box.width === 0 || box.height === 0) return null
+   // Range 전체의 getClientRects는 span 상자와 글자 상자가 겹쳐 나오므로 item별로 잘라서 잼
+   const rects: PageRect[] = []
+   for (const span of startLayer.querySelectorAll<HTMLElement>('[data-item]')) {
+      const item = Number(span.dataset.item)
+      const text = span.firstChild
+      if (item < start.item || item > end.item || !text || text.nodeType !== Node.TEXT_NODE) continue
+      const length = (text.textContent ?? '').length
+      const from = item === start.item ? Math.min(start.offset, length) : 0
+      const to = item === end.item ? Math.min(end.offset, length) : length
+      if (to <= from) continue
+      const part = document.createRange()
+      part.setStart(text, from)
+      part.setEnd(text, to)
+      for (const r of part.getClientRects()) {
+         if (r.width < 0.5 || r.height < 0.5) continue
+         rects.push({ x: (r.left - box.left) / box.width, y: (r.top - box.top) / box.height, w: r.width / box.width, h: r.height / box.height })
+      }
+   }
+   if (rects.length === 0) return null
+
+   return { pageIndex: Number(startLayer.dataset.pageIndex), highlight: { start, end, quote, rects }, clientRect: range.getBoundingClientRect() }
+}
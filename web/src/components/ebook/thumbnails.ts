@@ -0,0 +1,71 @@
+import type { RenderSource } from './renderEngine'
+
+// 썸네일용 저해상도 렌더러. 화면에 보이는 썸네일만 요청하고, 한 번에 한 장씩 그려 본문 렌더를 방해하지 않음
+
+const THUMB_WIDTH = 120
+
+export function createThumbnailRenderer(doc: RenderSource) {
+   const urls = new Map<number, Promise<string | null>>()
+   const wanted = new Set<number>()
+   let queue: Promise<unknown> = Promise.resolve()
+   let disposed = false
+
+   const renderThumb = async (pageIndex: number): Promise<string | null> => {
+      // 큐에서 차례가 오기 전에 화면 밖으로 스크롤되면 건너뜀(다음에 다시 요청)
+      if (disposed || !wanted.has(pageIndex)) {
+         urls.delete(pageIndex)
+         return null
+      }
+
+      const page = await doc.getPage(pageIndex + 1)
+      const vp1 = page.getViewport({ scale: 1 })
+      const dpr = Math.min(2, Math.max(1, window.devicePixelRatio || 1))
+      const viewport = page.getViewport({ scale: (THUMB_WIDTH / vp1.width) * dpr })
+
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.floor(viewport.width)
+      canvas.height = Math.floor(viewport.height)
+      const ctx = canvas.getContext('2d', { alpha: false })
+      if (!ctx) return null
+
+      try {
+         await page.render({ canvasContext: ctx, viewport }).promise
+         const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.75))
+         if (!blob || disposed) return null
+         return URL.createObjectURL(blob)
+      } finally {
+         // 임시 캔버스 백킹스토어 즉시 해제
+         canvas.width = 0
+         canvas.height = 0
+      }
+   }
+
+   const request = (pageIndex: number) => {
+      wanted.add(pageIndex)
+      let p = urls.get(pageIndex)
+      if (!p) {
+         p = queue.then(() => renderThumb(pageIndex)).catch(() => {
+            urls.delete(pageIndex)
+            return null
+         })
+         queue = p
+         urls.set(pageIndex, p)
+      }
+      return p
+   }
+
+   const release = (pageIndex: number) => {
+      wanted.delete(pageIndex)
+   }
+
+   const dispose = () => {
+      disposed = true
+      for (const p of urls.values()) void p.then((url) => url && URL.revokeObjectURL(url))
+      urls.clear()
+      wanted.clear()
+   }
+
+   return { request, release, dispose }
+}
+
+export type ThumbnailRenderer = ReturnType<typeof createThumbnailRenderer>
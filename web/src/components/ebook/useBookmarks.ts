@@ -0,0 +1,56 @@
+'use client'
+
+import { useState } from 'react'
+import { readJson, writeJson } from '@/lib/storage'
+import { BOOKMARK_LABEL_MAX, bookmarksKey, downloadBookmarks, mergeBookmarks, parseBookmarks, sortBookmarks, type Bookmark } from './bookmarks'
+
+type UseBookmarksOptions = {
+   pdfUrl: string
+   // 문서가 로드된 뒤에만 읽음(쪽 범위 검증에 필요)
+   numPages: number
+}
+
+const EMPTY: Bookmark[] = []
+
+export function useBookmarks({ pdfUrl, numPages }: UseBookmarksOptions) {
+   const key = bookmarksKey(pdfUrl)
+   const [stored, setStored] = useState<{ key: string; items: Bookmark[] } | null>(null)
+
+   // 책이 열리는 시점에 한 번 불러옴(렌더 중 상태 보정 패턴)
+   if (numPages > 0 && stored?.key !== key) {
+      setStored({ key, items: parseBookmarks(readJson<unknown>(key), numPages) })
+   }
+
+   const bookmarks = stored?.key === key ? stored.items : EMPTY
+
+   const save = (items: Bookmark[]) => {
+      setStored({ key, items })
+      writeJson(key, items)
+   }
+
+   const isBookmarked = (pageIndex: number) => bookmarks.some((b) => b.pageIndex === pageIndex)
+
+   const toggle = (pageIndex: number) => {
+      if (isBookmarked(pageIndex)) save(bookmarks.filter((b) => b.pageIndex !== pageIndex))
+      else save(sortBookmarks([...bookmarks, { pageIndex, label: '', createdAt: Date.now() }]))
+   }
+
+   const remove = (pageIndex: number) => save(bookmarks.filter((b) => b.pageIndex !== pageIndex))
+
+   const setLabel = (pageIndex: number, label: string) => {
+      save(bookmarks.map((b) => (b.pageIndex === pageIndex ? { ...b, label: label.slice(0, BOOKMARK_LABEL_MAX) } : b)))
+   }
+
+   const exportFile = () => downloadBookmarks(pdfUrl, bookmarks)
+
+   // 가져온 책갈피 수를 돌려줌. JSON이 아니면 예외
+   const importFile = async (file: File) => {
+      const incoming = parseBookmarks(JSON.parse(await file.text()), numPages)
+      if (incoming.length > 0) save(mergeBookmarks(bookmarks, incoming))
+      return incoming.length
+   }
+
+   return { bookmarks, isBookmarked, toggle, remove, setLabel, exportFile, importFile }
+}
+
+export type BookmarksState = ReturnType<typeof useBookmarks>
@@ -0,0 +1,22 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+export function useElementSize<T extends HTMLElement>() {
+   const ref = useRef<T | null>(null)
+   const [size, setSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 })
+
+   useEffect(() => {
+      const el = ref.current
+      if (!el) return
+
+      const ro = new ResizeObserver((entries) => {
+         const cr = entries[0]?.contentRect
+         setSize({ width: cr?.width ?? 0, height: cr?.height ?? 0 })
+      })
+      ro.observe(el)
+      return () => ro.disconnect()
+   }, [])
+
+   return { ref, ...size }
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { readJson, writeJson } from '@/lib/storage'
+
+// "큰 글씨/큰 버튼" 보기. 책과 관계없이 기기에 한 번 정하면 모든 교재에 적용
+const LARGE_UI_KEY = 'ebook:large-ui'
+
+const listeners = new Set<() => void>()
+
+const subscribe = (listener: () => void) => {
+   listeners.add(listener)
+   // 다른 탭에서 바꾼 것도 반영
+   window.addEventListener('storage', listener)
+   return () => {
+      listeners.delete(listener)
+      window.removeEventListener('storage', listener)
+   }
+}
+
+const getSnapshot = () => readJson<boolean>(LARGE_UI_KEY) === true
+// 정적 HTML에는 기본 크기로 그린 뒤 하이드레이션 때 저장값 반영
+const getServerSnapshot = () => false
+
+export function useLargeUi() {
+   const largeUi = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+   const toggleLargeUi = () => {
+      writeJson(LARGE_UI_KEY, !largeUi)
+      listeners.forEach((l) => l())
+   }
+
+   return { largeUi, toggleLargeUi }
+}
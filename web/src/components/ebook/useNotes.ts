@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { PageRect } from './pageText'
+import { compareNotes, deleteNote, downloadNotes, loadNotes, newNoteId, putNote, type NoteColor, type NoteHighlight, type PageNote } from './notes'
+
+type UseNotesOptions = {
+   pdfUrl: string
+   enabled: boolean
+}
+
+const EMPTY: PageNote[] = []
+
+// 형광펜/메모 목록을 뷰어에서 들고 있고, 바뀔 때마다 IndexedDB에 바로 저장
+export function useNotes({ pdfUrl, enabled }: UseNotesOptions) {
+   const [stored, setStored] = useState<{ book: string; notes: PageNote[] } | null>(null)
+   const [error, setError] = useState<string | null>(null)
+
+   useEffect(() => {
+      if (!enabled) return
+      let cancelled = false
+      loadNotes(pdfUrl)
+         .then((notes) => {
+            if (!cancelled) setStored({ book: pdfUrl, notes })
+         })
+         // 사생활 보호 모드 등에서 저장소를 못 여는 것은 흔한 일이라 안내 문구만 보여 줌
+         .catch(() => {
+            if (!cancelled) setError('메모를 불러오지 못했어요. 이 브라우저에서는 메모가 저장되지 않을 수 있어요.')
+         })
+      return () => {
+         cancelled = true
+      }
+   }, [pdfUrl, enabled])
+
+   const notes = stored?.book === pdfUrl ? stored.notes : EMPTY
+
+   const persist = (task: Promise<void>) => {
+      task.catch(() => {
+         setError('메모를 저장하지 못했어요.')
+      })
+   }
+
+   const insert = (note: PageNote) => {
+      setStored({ book: pdfUrl, notes: [...notes, note].sort(compareNotes) })
+      persist(putNote(note))
+      return note
+   }
+
+   const addHighlight = (pageIndex: number, highlight: NoteHighlight, color: NoteColor) => {
+      const now = Date.now()
+      return insert({ id: newNoteId(), book: pdfUrl, pageIndex, highlight, color, text: '', createdAt: now, updatedAt: now })
+   }
+
+   const addPageNote = (pageIndex: number) => {
+      const now = Date.now()
+      return insert({ id: newNoteId(), book: pdfUrl, pageIndex, highlight: null, color: 'yellow', text: '', createdAt: now, updatedAt: now })
+   }
+
+   const update = (id: string, patch: Partial<Pick<PageNote, 'text' | 'color'>>) => {
+      const prev = notes.find((n) => n.id === id)
+      if (!prev) return
+      const next = { ...prev, ...patch, updatedAt: Date.now() }
+      setStored({ book: pdfUrl, notes: notes.map((n) => (n.id === id ? next : n)) })
+      persist(putNote(next))
+   }
+
+   const remove = (id: string) => {
+      setStored({ book: pdfUrl, notes: notes.filter((n) => n.id !== id) })
+      persist(deleteNote(id))
+   }
+
+   const exportFile = (format: 'markdown' | 'json') => downloadNotes(pdfUrl, notes, format)
+
+   // 페이지별 형광펜 사각형(쪽 전체 메모는 그리지 않음)
+   const highlightsByPage = useMemo(() => {
+      const map = new Map<number, Array<{ rects: PageRect[]; color: NoteColor }>>()
+      for (const note of notes) {
+         if (!note.highlight) continue
+         const list = map.get(note.pageIndex) ?? []
+         list.push({ rects: note.highlight.rects, color: note.color })
+         map.set(note.pageIndex, list)
+      }
+      return map
+   }, [notes])
+
+   return { notes, error, addHighlight, addPageNote, update, remove, exportFile, highlightsByPage }
+}
+
+export type NotesState = ReturnType<typeof useNotes>
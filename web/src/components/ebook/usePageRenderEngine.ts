@@ -0,0 +1,92 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getPageMemoryBudget, keepWindowForBudget, pageCanvasBytes } from './memoryBudget'
+import type { PageSize } from './pdfTypes'
+import { createPageRenderEngine, renderDpr, type PageRenderEngine, type RenderSource } from './renderEngine'
+
+type UsePageRenderEngineOptions = {
+   doc: RenderSource | null
+   pageSize: PageSize | null
+   viewZoom: number
+   pageIndex: number
+   // 현재 페이지 앞/뒤로 미리 그려둘 장수
+   before: number
+   after: number
+   // 현재 페이지 앞/뒤로 캔버스를 유지할 최대 장수(밖은 해제하고 빈 페이지만 남김)
+   keepWindow: number
+   // 플립북이 다시 마운트되면(키 변경) 캔버스가 새로 생기므로 전부 다시 그림
+   layoutKey: string
+}
+
+// 화면 캔버스 60%, 비트맵 캐시 40%로 나눠 씀
+const CANVAS_BUDGET_SHARE = 0.6
+
+// 렌더 엔진을 React 생명주기에 연결. 레이아웃은 canvasRef로 캔버스만 등록하면 됨
+export function usePageRenderEngine({ doc, pageSize, viewZoom, pageIndex, before, after, keepWindow, layoutKey }: UsePageRenderEngineOptions) {
+   const [budget] = useState(() => getPageMemoryBudget())
+   // ref 콜백을 페이지별로 고정해 두어야 리렌더마다 캔버스가 떼였다 붙지 않음
+   const [slots] = useState(() => ({ canvases: new Map<number, HTMLCanvasElement>(), callbacks: new Map<number, (el: HTMLCanvasElement | null) => void>() }))
+   const engineRef = useRef<PageRenderEngine | null>(null)
+
+   const engine = useMemo(
+      () => (doc ? createPageRenderEngine({ doc, getCanvas: (i) => slots.canvases.get(i) ?? null, bitmapBudgetBytes: budget * (1 - CANVAS_BUDGET_SHARE) }) : null),
+      [doc, slots, budget]
+   )
+
+   useEffect(() => {
+      engineRef.current = engine
+      return () => {
+         engineRef.current = null
+         engine?.dispose()
+      }
+   }, [engine])
+
+   useEffect(() => {
+      if (!engine || !pageSize) return
+      engine.setSize(pageSize, viewZoom)
+   }, [engine, pageSize, viewZoom])
+
+   useEffect(() => {
+      engine?.invalidate()
+   }, [engine, layoutKey])
+
+   // DPR이 높을수록 한 장이 커지므로 유지하는 장수를 줄임
+   const perPageBytes = pageSize && typeof window !== 'undefined' ? pageCanvasBytes(pageSize, renderDpr(window.devicePixelRatio, viewZoom)) : 0
+   const keep = keepWindowForBudget(budget * CANVAS_BUDGET_SHARE, perPageBytes, keepWindow)
+   const renderBefore = Math.min(before, keep)
+   const renderAfter = Math.min(after, keep)
+
+   useEffect(() => {
+      engine?.setWindow(pageIndex, { before: renderBefore, after: renderAfter })
+   }, [engine, pageIndex, renderBefore, renderAfter])
+
+   const canvasRef = (pageIndex: number) => {
+      let cb = slots.callbacks.get(pageIndex)
+      if (!cb) {
+         cb = (el: HTMLCanvasElement | null) => {
+            if (el) {
+               slots.canvases.set(pageIndex, el)
+               // 새로 붙은 캔버스는 캐시된 비트맵으로 바로 채움(플립북 재마운트/가상화 복귀 시 흰 페이지 방지)
+               engineRef.current?.attach(pageIndex)
+               return
+            }
+            const prev = slots.canvases.get(pageIndex)
+            slots.canvases.delete(pageIndex)
+            engineRef.current?.detach(pageIndex)
+            // 백킹스토어를 즉시 반납(GC를 기다리지 않음)
+            if (prev) {
+               prev.width = 0
+               prev.height = 0
+            }
+         }
+         slots.callbacks.set(pageIndex, cb)
+      }
+      return cb
+   }
+
+   // 스프레드 오른쪽 페이지까지 포함해 캔버스를 둘 범위
+   const shouldMountCanvas = (index: number) => index >= pageIndex - keep && index <= pageIndex + keep + 1
+
+   return { engine, canvasRef, shouldMountCanvas }
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+// `?page=37` 또는 `#p37` 형태의 딥링크에서 0-based 페이지 인덱스를 읽음(없으면 null)
+export function readPageIndexFromLocation(): number | null {
+   if (typeof window === 'undefined') return null
+   const url = new URL(window.location.href)
+   const fromQuery = url.searchParams.get('page')
+   const fromHash = /^#p(\d+)$/i.exec(url.hash)?.[1]
+   const raw = fromQuery ?? fromHash
+   if (!raw) return null
+   const pageNo = Number.parseInt(raw, 10)
+   return Number.isFinite(pageNo) && pageNo >= 1 ? pageNo - 1 : null
+}
+
+function buildPageUrl(pageIndex: number) {
+   const url = new URL(window.location.href)
+   url.searchParams.set('page', String(pageIndex + 1))
+   // 해시 형태(#p37)로 들어왔어도 쿼리 한 곳으로 정리
+   if (/^#p\d+$/i.test(url.hash)) url.hash = ''
+   return url.toString()
+}
+
+type UsePageUrlSyncOptions = {
+   // 문서가 로드되어 pageIndex가 의미 있을 때만 URL을 건드림
+   enabled: boolean
+   pageIndex: number
+   // 이 칸수보다 크게 움직이면 "점프"로 보고 히스토리에 쌓음(스프레드=2, 단면=1)
+   jumpThreshold: number
+   // 실제로 펼친 쪽(범위 밖이면 잘라낸 값)을 돌려줌. 넘길 수 없으면 null
+   onNavigate: (pageIndex: number) => number | null
+}
+
+// 현재 페이지를 URL과 동기화: 넘길 때는 replaceState, 점프는 pushState(뒤로/앞으로 가기 지원)
+export function usePageUrlSync({ enabled, pageIndex, jumpThreshold, onNavigate }: UsePageUrlSyncOptions) {
+   const lastIndexRef = useRef<number | null>(null)
+   // 뒤로/앞으로 가기로 시작한 이동이면 다음 페이지 변경은 히스토리를 새로 쌓지 않음
+   const fromPopRef = useRef(false)
+   const onNavigateRef = useRef(onNavigate)
+
+   useEffect(() => {
+      onNavigateRef.current = onNavigate
+   }, [onNavigate])
+
+   useEffect(() => {
+      if (!enabled) {
+         lastIndexRef.current = null
+         return
+      }
+
+      const last = lastIndexRef.current
+      lastIndexRef.current = pageIndex
+      const fromPop = fromPopRef.current
+      fromPopRef.current = false
+      const nextUrl = buildPageUrl(pageIndex)
+      if (nextUrl === window.location.href) return
+
+      const isJump = last != null && !fromPop && Math.abs(pageIndex - last) > jumpThreshold
+      if (isJump) window.history.pushState(null, '', nextUrl)
+      else window.history.replaceState(null, '', nextUrl)
+   }, [enabled, pageIndex, jumpThreshold])
+
+   useEffect(() => {
+      if (!enabled) return
+      const handlePopState = () => {
+         // 쪽 번호가 없는 주소(처음 들어온 주소 등)는 1쪽
+         const idx = readPageIndexFromLocation() ?? 0
+         if (idx === lastIndexRef.current) return
+         // 실제로 쪽이 바뀔 때만 표시(같은 쪽에 머물면 표시가 남아 다음 점프가 히스토리에 안 쌓임)
+         const landed = onNavigateRef.current(idx)
+         if (landed != null && landed !== lastIndexRef.current) fromPopRef.current = true
+      }
+      window.addEventListener('popstate', handlePopState)
+      return () => window.removeEventListener('popstate', handlePopState)
+   }, [enabled])
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { readSession, removeSession, writeSession } from '@/lib/storage'
+import { classifyPdfError, detectUnsupportedBrowser, pdfLoadError, type PdfLoadError } from './pdfErrors'
+import type { PdfDocument } from './pdfTypes'
+import { loadPdfjs } from './pdfjs'
+
+export type PdfLoadStatus =
+   | { state: 'idle' }
+   // progress: 받은 바이트(total은 서버가 크기를 알려주지 않으면 null). 아직 응답 전이면 null
+   | { state: 'loading'; progress: PdfLoadProgress | null }
+   | { state: 'ready' }
+   // 암호 PDF: 비밀번호 입력을 기다리는 중(incorrect: 방금 넣은 비밀번호가 틀림)
+   | { state: 'password'; incorrect: boolean }
+   // autoRetry: 일시적인 네트워크 오류라 잠시 뒤 스스로 다시 시도하는 중(몇 번째인지)
+   | { state: 'error'; error: PdfLoadError; autoRetry: { attempt: number; max: number; delayMs: number } | null }
+
+export type PdfLoadProgress = { loaded: number; total: number | null }
+
+// 범위 요청 한 번에 받을 크기. 서버가 Range를 지원하면 필요한 부분부터 받아 첫 페이지를 먼저 그림
+const RANGE_CHUNK_SIZE = 256 * 1024
+// 진행률 갱신 간격(크기를 모를 때). 조각마다 다시 그리지 않도록
+const PROGRESS_STEP_BYTES = 256 * 1024
+
+// 네트워크 오류 자동 재시도 간격(2초, 4초, 8초, 16초 후 포기하고 버튼만 남김)
+const RETRY_DELAYS_MS = [2000, 4000, 8000, 16000]
+
+// pdf.js PasswordResponses
+const PASSWORD_INCORRECT = 2
+
+const passwordKey = (pdfUrl: string) => `ebook:pdf-password:${pdfUrl}`
+
+type PasswordHandlers = {
+   submit: (password: string, remember: boolean) => void
+   cancel: () => void
+}
+
+type UsePdfDocumentOptions = {
+   // 문서가 준비된 직후(첫 렌더 전에) 호출. 시작 페이지 결정 등에 사용
+   onLoaded?: (doc: PdfDocument) => void
+}
+
+// pdf.js 문서 로드 + 첫 페이지 비율 측정. 데스크톱/모바일 뷰어가 함께 사용
+export function usePdfDocument(pdfUrl: string, { onLoaded }: UsePdfDocumentOptions = {}) {
+   const [reloadNonce, setReloadNonce] = useState(0)
+   const [doc, setDoc] = useState<PdfDocument | null>(null)
+   const [pageRatio, setPageRatio] = useState<number | null>(null) // height / width
+   const [pageWidth, setPageWidth] = useState<number | null>(null) // 첫 페이지 너비(pt). "실제 크기" 배율 계산용
+   const [status, setStatus] = useState<PdfLoadStatus>({ state: 'idle' })
+   const onLoadedRef = useRef(onLoaded)
+   // 자동 재시도 횟수. 성공하거나 사용자가 직접 다시 시도하면 0부터
+   const autoRetryRef = useRef(0)
+   const passwordRef = useRef<PasswordHandlers | null>(null)
+   // Range 요청에 206 대신 엉뚱한 응답을 주는 서버면 이 주소는 통째로 받기(스트리밍)로 다시 엶
+   const noRangeUrlRef = useRef<string | null>(null)
+
+   useEffect(() => {
+      onLoadedRef.current = onLoaded
+   }, [onLoaded])
+
+   useEffect(() => {
+      let cancelled = false
+      let retryTimer: number | null = null
+      // 이번 시도의 로딩 작업. 다시 시도/주소 변경/언마운트 때 워커와 (이미 열린) 문서까지 함께 정리
+      let loadingTask: { destroy: () => Promise<void> } | null = null
+
+      const retryNow = () => {
+         if (retryTimer !== null) window.clearTimeout(retryTimer)
+         retryTimer = null
+         autoRetryRef.current += 1
+         setReloadNonce((n) => n + 1)
+      }
+
+      // 연결이 돌아오면 기다리지 않고 바로 다시 시도
+      const onOnline = () => {
+         if (retryTimer !== null) retryNow()
+      }
+
+      const fail = (error: PdfLoadError) => {
+         const attempt = autoRetryRef.current
+         if (error.transient && attempt < RETRY_DELAYS_MS.length) {
+            const delayMs = RETRY_DELAYS_MS[attempt]
+            setStatus({ state: 'error', error, autoRetry: { attempt: attempt + 1, max: RETRY_DELAYS_MS.length, delayMs } })
+            retryTimer = window.setTimeout(retryNow, delayMs)
+            window.addEventListener('online', onOnline)
+            return
+         }
+         setStatus({ state: 'error', error, autoRetry: null })
+      }
+
+      async function load() {
+         setStatus({ state: 'loading', progress: null })
+         setDoc(null)
+         setPageRatio(null)
+         setPageWidth(null)
+
+         if (detectUnsupportedBrowser()) {
+            fail(pdfLoadError('unsupported-browser'))
+            return
+         }
+
+         let stage: 'module' | 'document' = 'module'
+         // 이 탭에서 이미 맞힌 비밀번호가 있으면 먼저 써 봄
+         const remembered = readSession(passwordKey(pdfUrl))
+         let triedRemembered = !!remembered
+         let rememberCandidate: string | null = null
+         let passwordCancelled = false
+         // 비밀번호를 기다리거나 문서가 열린 뒤에는 진행률로 화면을 덮어쓰지 않음
+         let showProgress = true
+         let lastProgress: PdfLoadProgress | null = null
+         const rangeDisabled = noRangeUrlRef.current === pdfUrl
+         try {
+            const pdfjs = await loadPdfjs()
+            if (cancelled) return
+            stage = 'document'
+            // Accept-Ranges가 없는 서버(간단한 로컬 정적 서버 등)는 pdf.js가 알아서 전체 스트리밍으로 받음
+            const task = pdfjs.getDocument({ url: pdfUrl, password: remembered ?? undefined, rangeChunkSize: RANGE_CHUNK_SIZE, disableRange: rangeDisabled })
+            loadingTask = task
+            task.onProgress = ({ loaded, total }: { loaded: number; total?: number }) => {
+               if (cancelled || !showProgress) return
+               const next: PdfLoadProgress = { loaded, total: total && total > 0 ? total : null }
+               const prev = lastProgress
+               const changed =
+                  !prev || next.total !== prev.total || (next.total ? Math.floor((loaded / next.total) * 100) !== Math.floor((prev.loaded / next.total) * 100) : loaded - prev.loaded >= PROGRESS_STEP_BYTES)
+               if (!changed) return
+               lastProgress = next
+               setStatus({ state: 'loading', progress: next })
+            }
+            task.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+               if (cancelled) return
+               // 기억해 둔 비밀번호가 바뀌었으면 조용히 지우고 새로 물어봄(틀렸다고 표시하지 않음)
+               const incorrect = reason === PASSWORD_INCORRECT && !triedRemembered
+               if (triedRemembered) removeSession(passwordKey(pdfUrl))
+               triedRemembered = false
+               showProgress = false
+               passwordRef.current = {
+                  submit: (password, remember) => {
+                     rememberCandidate = remember ? password : null
+                     showProgress = true
+                     setStatus({ state: 'loading', progress: lastProgress })
+                     updatePassword(password)
+                  },
+                  cancel: () => {
+                     passwordCancelled = true
+                     void task.destroy()
+                  },
+               }
+               setStatus({ state: 'password', incorrect })
+            }
+            const loaded = (await task.promise) as unknown as PdfDocument
+            passwordRef.current = null
+            // 문서 구조를 읽었으면 나머지는 뒤에서 계속 받음. 첫 페이지는 바로 그림
+            showProgress = false
+            if (cancelled) return
+            if (rememberCandidate) writeSession(passwordKey(pdfUrl), rememberCandidate)
+
+            const first = await loaded.getPage(1)
+            if (cancelled) return
+            const vp = first.getViewport({ scale: 1 })
+            const ratio = vp.width > 0 ? vp.height / vp.width : null
+
+            autoRetryRef.current = 0
+            onLoadedRef.current?.(loaded)
+            setDoc(loaded)
+            setPageRatio(ratio)
+            setPageWidth(vp.width > 0 ? vp.width : null)
+            setStatus({ state: 'ready' })
+         } catch (e) {
+            passwordRef.current = null
+            if (cancelled) return
+            if (passwordCancelled) {
+               fail(pdfLoadError('password'))
+               return
+            }
+            const error = classifyPdfError(e, stage)
+            // 범위 요청이 어긋난 경우만(받은 조각이 맞지 않아 파일이 깨져 보이거나, 서버가 416으로 범위를 거절) 한 번 Range 없이 다시 받아 봄
+            const rangeRejected = (e as { status?: number } | null)?.status === 416
+            if (stage === 'document' && !rangeDisabled && (error.kind === 'invalid-pdf' || rangeRejected)) {
+               noRangeUrlRef.current = pdfUrl
+               setReloadNonce((n) => n + 1)
+               return
+            }
+            // 원인 추적을 위해 브라우저 콘솔에 원본 에러(스택 포함)를 남김
+            // eslint-disable-next-line no-console
+            console.error('[EbookFlipbook] pdf.js load error:', e)
+            fail(error)
+         }
+      }
+
+      load()
+      return () => {
+         cancelled = true
+         void loadingTask?.destroy()
+         if (retryTimer !== null) window.clearTimeout(retryTimer)
+         window.removeEventListener('online', onOnline)
+      }
+   }, [pdfUrl, reloadNonce])
+
+   // 사용자가 직접 다시 시도(자동 재시도 횟수도 초기화)
+   const reload = () => {
+      autoRetryRef.current = 0
+      setReloadNonce((n) => n + 1)
+   }
+
+   // 암호 PDF 입력창에서 호출(status.state === 'password'일 때만 의미 있음)
+   const submitPassword = (password: string, remember: boolean) => passwordRef.current?.submit(password, remember)
+   const cancelPassword = () => passwordRef.current?.cancel()
+
+   return { doc, numPages: doc?.numPages ?? 0, pageRatio, pageWidth, status, reload, submitPassword, cancelPassword }
+}
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react'
+import { readJson, writeJson } from '@/lib/storage'
+import { enterFullscreen, exitFullscreen, isFullscreen, subscribeFullscreen } from './fullscreen'
+
+const INTERVAL_KEY = 'ebook:slideshow-interval'
+// 자동 넘김 간격(초). 버튼을 누를 때마다 차례로 바뀜
+export const SLIDESHOW_INTERVALS = [5, 10, 15, 30, 60] as const
+const DEFAULT_INTERVAL = 15
+// 마우스를 움직이지 않으면 발표 도구 막대를 숨기기까지 기다리는 시간
+const CONTROLS_HIDE_MS = 3000
+
+type UsePresentationOptions = {
+   pageIndex: number
+   numPages: number
+   // 한 번 넘길 때 바뀌는 쪽 수(스프레드면 2)
+   pagesPerView: number
+   onAdvance: () => void
+}
+
+// 수업용 발표 모드: 전체 화면 + 도구 막대 자동 숨김 + 일정 시간마다 자동 넘김
+export function usePresentation({ pageIndex, numPages, pagesPerView, onAdvance }: UsePresentationOptions) {
+   const [active, setActive] = useState(false)
+   const [playing, setPlaying] = useState(false)
+   const [interval, setIntervalState] = useState<number>(() => {
+      const saved = readJson<number>(INTERVAL_KEY)
+      return saved && SLIDESHOW_INTERVALS.includes(saved as (typeof SLIDESHOW_INTERVALS)[number]) ? saved : DEFAULT_INTERVAL
+   })
+   const [controlsVisible, setControlsVisible] = useState(true)
+
+   const onAdvanceRef = useRef(onAdvance)
+   useEffect(() => {
+      onAdvanceRef.current = onAdvance
+   }, [onAdvance])
+
+   const hideTimerRef = useRef<number | null>(null)
+
+   const clearHideTimer = () => {
+      if (hideTimerRef.current !== null) window.clearTimeout(hideTimerRef.current)
+      hideTimerRef.current = null
+   }
+
+   const revealControls = () => {
+      clearHideTimer()
+      setControlsVisible(true)
+      hideTimerRef.current = window.setTimeout(() => setControlsVisible(false), CONTROLS_HIDE_MS)
+   }
+
+   const start = () => {
+      setActive(true)
+      setPlaying(false)
+      revealControls()
+      void enterFullscreen()
+   }
+
+   const stop = () => {
+      clearHideTimer()
+      setActive(false)
+      setPlaying(false)
+      setControlsVisible(true)
+      void exitFullscreen()
+   }
+
+   // Esc 등으로 브라우저가 전체 화면을 끝내면 발표 모드도 함께 끝냄
+   useEffect(() => {
+      if (!active) return
+      return subscribeFullscreen(() => {
+         if (isFullscreen()) return
+         if (hideTimerRef.current !== null) window.clearTimeout(hideTimerRef.current)
+         hideTimerRef.current = null
+         setActive(false)
+         setPlaying(false)
+         setControlsVisible(true)
+      })
+   }, [active])
+
+   // 마우스를 움직이면 도구 막대를 다시 보여 줌
+   useEffect(() => {
+      if (!active) return
+      const handleMove = () => {
+         if (hideTimerRef.current !== null) window.clearTimeout(hideTimerRef.current)
+         setControlsVisible(true)
+         hideTimerRef.current = window.setTimeout(() => setControlsVisible(false), CONTROLS_HIDE_MS)
+      }
+      window.addEventListener('pointermove', handleMove)
+      return () => window.removeEventListener('pointermove', handleMove)
+   }, [active])
+
+   useEffect(
+      () => () => {
+         if (hideTimerRef.current !== null) window.clearTimeout(hideTimerRef.current)
+      },
+      []
+   )
+
+   const atLastView = pageIndex + pagesPerView >= numPages
+
+   // 쪽이 바뀔 때마다(직접 넘긴 경우 포함) 간격을 처음부터 다시 셈. 마지막 쪽에 닿으면 멈춤
+   useEffect(() => {
+      if (!active || !playing) return
+      const timer = window.setTimeout(() => {
+         if (atLastView) setPlaying(false)
+         else onAdvanceRef.current()
+      }, interval * 1000)
+      return () => window.clearTimeout(timer)
+   }, [active, playing, interval, pageIndex, atLastView])
+
+   const togglePlaying = () => setPlaying((v) => !v)
+
+   const cycleInterval = () => {
+      const i = SLIDESHOW_INTERVALS.findIndex((s) => s === interval)
+      const next = SLIDESHOW_INTERVALS[(i + 1) % SLIDESHOW_INTERVALS.length]
+      setIntervalState(next)
+      writeJson(INTERVAL_KEY, next)
+   }
+
+   return { active, playing, interval, controlsVisible, start, stop, togglePlaying, cycleInterval, revealControls }
+}
+
+export type PresentationState = ReturnType<typeof usePresentation>
@@ -0,0 +1,225 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { readJson, writeJson } from '@/lib/storage'
+import type { PageRect, PageText } from './pageText'
+import { isSpeechSupported, pickKoreanVoice, splitSentences, SPEECH_RATES, type SpeechSentence } from './readAloud'
+
+const RATE_KEY = 'ebook:read-aloud-rate'
+// 다음 쪽으로 넘긴 뒤 넘김 애니메이션이 끝날 즈음 읽기 시작
+const PAGE_TURN_DELAY_MS = 600
+// 음성 목록이 비동기로 채워지는 브라우저(크롬 등)를 이만큼 기다린 뒤 "음성 없음"으로 판단
+const VOICE_WAIT_MS = 1500
+
+export type ReadAloudSupport = 'checking' | 'unsupported' | 'no-voice' | 'ready'
+export type ReadAloudStatus = 'idle' | 'playing' | 'paused'
+
+type UseReadAloudOptions = {
+   getPageText: ((pageIndex: number) => Promise<PageText>) | null
+   numPages: number
+   // 지금 화면에 보이는 쪽들(PC 스프레드면 두 쪽)
+   visiblePages: number[]
+   // 다 읽은 쪽이 화면 밖이면 넘겨 달라고 요청
+   onTurnTo: (pageIndex: number) => void
+}
+
+type Position = { pageIndex: number; sentence: number }
+
+// 현재 쪽부터 문장 단위로 읽고, 쪽이 끝나면 자동으로 넘김. 읽는 문장은 강조 표시
+export function useReadAloud({ getPageText, numPages, visiblePages, onTurnTo }: UseReadAloudOptions) {
+   const [support, setSupport] = useState<ReadAloudSupport>('checking')
+   const [status, setStatus] = useState<ReadAloudStatus>('idle')
+   const [rate, setRateState] = useState<number>(() => {
+      const saved = readJson<number>(RATE_KEY)
+      return saved && SPEECH_RATES.includes(saved as (typeof SPEECH_RATES)[number]) ? saved : 1
+   })
+   const [current, setCurrent] = useState<{ pageIndex: number; rects: PageRect[]; text: string } | null>(null)
+   // 읽을 수 없을 때(음성 없음 등) 잠깐 띄우는 안내
+   const [notice, setNotice] = useState<string | null>(null)
+
+   const voiceRef = useRef<SpeechSynthesisVoice | null>(null)
+   // 발화마다 세대 번호를 붙여, 취소된 발화의 end/error 이벤트는 무시
+   const tokenRef = useRef(0)
+   const positionRef = useRef<Position | null>(null)
+   const sentencesRef = useRef(new Map<number, SpeechSentence[]>())
+   const turnTimerRef = useRef<number | null>(null)
+   const optionsRef = useRef({ getPageText, numPages, visiblePages, onTurnTo, rate })
+
+   useEffect(() => {
+      optionsRef.current = { getPageText, numPages, visiblePages, onTurnTo, rate }
+   })
+
+   // 문서가 바뀌면 문장 캐시도 새로
+   useEffect(() => {
+      sentencesRef.current = new Map()
+   }, [getPageText])
+
+   useEffect(() => {
+      if (!isSpeechSupported()) {
+         // 외부 시스템(브라우저 기능) 확인 결과를 상태로 반영
+         const timer = window.setTimeout(() => setSupport('unsupported'), 0)
+         return () => window.clearTimeout(timer)
+      }
+      const synth = window.speechSynthesis
+      const update = (final: boolean) => {
+         const voice = pickKoreanVoice(synth.getVoices())
+         voiceRef.current = voice
+         if (voice) setSupport('ready')
+         else if (final) setSupport('no-voice')
+      }
+      const onVoicesChanged = () => update(false)
+      const timer = window.setTimeout(() => update(true), VOICE_WAIT_MS)
+      update(false)
+      synth.addEventListener('voiceschanged', onVoicesChanged)
+      return () => {
+         window.clearTimeout(timer)
+         synth.removeEventListener('voiceschanged', onVoicesChanged)
+      }
+   }, [])
+
+   const cancelSpeech = () => {
+      tokenRef.current += 1
+      if (turnTimerRef.current !== null) window.clearTimeout(turnTimerRef.current)
+      turnTimerRef.current = null
+      if (isSpeechSupported()) window.speechSynthesis.cancel()
+   }
+
+   // 언마운트(책 닫기) 시 읽기 중단
+   useEffect(
+      () => () => {
+         tokenRef.current += 1
+         if (turnTimerRef.current !== null) window.clearTimeout(turnTimerRef.current)
+         if (isSpeechSupported()) window.speechSynthesis.cancel()
+      },
+      []
+   )
+
+   const finish = () => {
+      cancelSpeech()
+      positionRef.current = null
+      setCurrent(null)
+      setStatus('idle')
+   }
+
+   const loadSentences = async (pageIndex: number) => {
+      const cached = sentencesRef.current.get(pageIndex)
+      if (cached) return cached
+      const load = optionsRef.current.getPageText
+      if (!load) return []
+      try {
+         const sentences = splitSentences(await load(pageIndex))
+         sentencesRef.current.set(pageIndex, sentences)
+         return sentences
+      } catch {
+         return []
+      }
+   }
+
+   const speakFrom = async (pageIndex: number, sentence: number, token: number) => {
+      positionRef.current = { pageIndex, sentence }
+      const sentences = await loadSentences(pageIndex)
+      if (token !== tokenRef.current) return
+      speakSentence(pageIndex, sentences, sentence, token)
+   }
+
+   const speakSentence = (pageIndex: number, sentences: SpeechSentence[], index: number, token: number) => {
+      if (index >= sentences.length) {
+         goToNextPage(pageIndex, token)
+         return
+      }
+      const sentence = sentences[index]
+      positionRef.current = { pageIndex, sentence: index }
+      setCurrent({ pageIndex, rects: sentence.rects, text: sentence.text })
+
+      const utterance = new SpeechSynthesisUtterance(sentence.text)
+      utterance.lang = voiceRef.current?.lang ?? 'ko-KR'
+      if (voiceRef.current) utterance.voice = voiceRef.current
+      utterance.rate = optionsRef.current.rate
+      utterance.onend = () => {
+         if (token === tokenRef.current) speakSentence(pageIndex, sentences, index + 1, token)
+      }
+      utterance.onerror = (e) => {
+         if (token !== tokenRef.current || e.error === 'interrupted' || e.error === 'canceled') return
+         finish()
+         setNotice('읽는 중에 문제가 생겼어요. 다시 눌러 주세요.')
+      }
+      window.speechSynthesis.speak(utterance)
+   }
+
+   const goToNextPage = (pageIndex: number, token: number) => {
+      const { numPages: total, visiblePages: visible, onTurnTo: turn } = optionsRef.current
+      const next = pageIndex + 1
+      if (next >= total) {
+         finish()
+         return
+      }
+      // 스프레드의 오른쪽 쪽처럼 이미 보이면 넘기지 않고 이어서 읽음
+      positionRef.current = { pageIndex: next, sentence: 0 }
+      setCurrent(null)
+      if (visible.includes(next)) {
+         void speakFrom(next, 0, token)
+         return
+      }
+      turn(next)
+      turnTimerRef.current = window.setTimeout(() => {
+         turnTimerRef.current = null
+         if (token === tokenRef.current) void speakFrom(next, 0, token)
+      }, PAGE_TURN_DELAY_MS)
+   }
+
+   const start = (pageIndex: number, sentence: number) => {
+      cancelSpeech()
+      setStatus('playing')
+      void speakFrom(pageIndex, sentence, tokenRef.current)
+   }
+
+   const play = () => {
+      if (support !== 'ready') {
+         setNotice(support === 'unsupported' ? '이 브라우저는 소리 내어 읽기를 지원하지 않아요. 크롬이나 사파리에서 열어 주세요.' : '이 기기에 한국어 음성이 없어요. 기기 설정에서 한국어 음성(TTS)을 설치해 주세요.')
+         return
+      }
+      const first = optionsRef.current.visiblePages[0] ?? 0
+      const resumeAt = positionRef.current
+      // 일시정지한 자리가 아직 화면에 있으면 그 문장부터, 아니면 지금 보이는 쪽 처음부터
+      if (status === 'paused' && resumeAt && optionsRef.current.visiblePages.includes(resumeAt.pageIndex)) start(resumeAt.pageIndex, resumeAt.sentence)
+      else start(first, 0)
+   }
+
+   // 일부 안드로이드 브라우저는 pause/resume이 동작하지 않아, 멈출 때는 취소하고 다시 읽을 때 그 문장부터
+   const pause = () => {
+      cancelSpeech()
+      setStatus('paused')
+   }
+
+   const stop = finish
+
+   const setRate = (next: number) => {
+      setRateState(next)
+      writeJson(RATE_KEY, next)
+      optionsRef.current.rate = next
+      // 읽는 중이면 지금 문장부터 새 속도로
+      const at = positionRef.current
+      if (status === 'playing' && at) start(at.pageIndex, at.sentence)
+   }
+
+   // 읽는 도중 사용자가 직접 다른 쪽으로 넘기면 그 쪽 처음부터 이어서
+   const visibleKey = visiblePages.join(',')
+   useEffect(() => {
+      if (status !== 'playing') return
+      const at = positionRef.current
+      const visible = visibleKey.split(',').map(Number)
+      if (!at || visible.includes(at.pageIndex)) return
+      cancelSpeech()
+      setCurrent(null)
+      const token = tokenRef.current
+      void speakFrom(visible[0], 0, token)
+      // speakFrom/cancelSpeech는 ref만 다루므로 화면에 보이는 쪽이 바뀔 때만 다시 실행
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+   }, [visibleKey, status])
+
+   const highlight = current && status !== 'idle' ? current : null
+
+   return { support, status, rate, setRate, play, pause, stop, highlight, notice, dismissNotice: () => setNotice(null) }
+}
+
+export type ReadAloudState = ReturnType<typeof useReadAloud>
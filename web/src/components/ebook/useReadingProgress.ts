@@ -0,0 +1,59 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { readJson, writeJson } from '@/lib/storage'
+
+export type ReadingProgress = {
+   pageIndex: number
+   zoom: number
+   savedAt: number
+}
+
+// 이어 읽기 제안. 저장 시각이 손상됐으면 null(날짜 문구를 빼고 보여 줌)
+export type ResumeOffer = Omit<ReadingProgress, 'savedAt'> & { savedAt: number | null }
+
+type UseReadingProgressOptions = {
+   pdfUrl: string
+   // 문서가 로드되어 pageIndex가 의미 있을 때만 읽고/씀
+   enabled: boolean
+   pageIndex: number
+   zoom: number
+}
+
+const progressKey = (pdfUrl: string) => `ebook:progress:${pdfUrl}`
+
+// 책(pdfUrl)별 마지막 읽은 위치를 기기에 저장하고, 다음 방문 때 "이어 읽기"를 제안
+export function useReadingProgress({ pdfUrl, enabled, pageIndex, zoom }: UseReadingProgressOptions) {
+   const key = progressKey(pdfUrl)
+   const [checked, setChecked] = useState<{ key: string; startIndex: number; resume: ResumeOffer | null } | null>(null)
+
+   // 책이 열리는 시점에 한 번만 저장값을 확인(렌더 중 상태 보정 패턴)
+   if (enabled && checked?.key !== key) {
+      const saved = readJson<ReadingProgress>(key)
+      const offer = saved && Number.isInteger(saved.pageIndex) && saved.pageIndex > 0 && saved.pageIndex !== pageIndex
+      // 저장값이 손상됐거나 예전 형식이면 배율은 쪽 맞춤(1)으로, 저장 시각은 없는 것으로
+      const zoom = typeof saved?.zoom === 'number' && Number.isFinite(saved.zoom) && saved.zoom > 0 ? saved.zoom : 1
+      const savedAt = typeof saved?.savedAt === 'number' && Number.isFinite(saved.savedAt) ? saved.savedAt : null
+      setChecked({ key, startIndex: pageIndex, resume: offer ? { pageIndex: saved.pageIndex, zoom, savedAt } : null })
+   }
+
+   // 제안을 무시하고 다른 곳으로 넘기기 시작하면 닫음
+   if (checked?.resume && pageIndex !== checked.startIndex) {
+      setChecked({ ...checked, resume: null })
+   }
+
+   const resume = checked?.key === key ? checked.resume : null
+   const ready = enabled && checked?.key === key
+
+   useEffect(() => {
+      // 제안에 답하기 전에는 저장값을 덮어쓰지 않음(새로고침해도 다시 물어봄)
+      if (!ready || resume) return
+      writeJson(key, { pageIndex, zoom, savedAt: Date.now() } satisfies ReadingProgress)
+   }, [ready, resume, key, pageIndex, zoom])
+
+   const dismissResume = () => {
+      setChecked((prev) => (prev ? { ...prev, resume: null } : prev))
+   }
+
+   return { resume, dismissResume }
+}
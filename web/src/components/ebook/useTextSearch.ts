@@ -0,0 +1,64 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { createTextSearchIndex, type SearchHit, type TextSearchSource } from './textSearch'
+
+// 검색어/결과/선택 결과를 뷰어 쪽에서 들고 있어, 패널을 닫았다 열어도 유지되고 하이라이트도 그림
+export function useTextSearch(doc: TextSearchSource | null) {
+   const index = useMemo(() => (doc ? createTextSearchIndex(doc) : null), [doc])
+   const abortRef = useRef<AbortController | null>(null)
+
+   const [query, setQuery] = useState('')
+   const [hits, setHits] = useState<SearchHit[] | null>(null)
+   const [activeHit, setActiveHit] = useState<SearchHit | null>(null)
+   const [progress, setProgress] = useState<{ scanned: number; total: number } | null>(null)
+
+   const run = async () => {
+      abortRef.current?.abort()
+      if (!index || !query.trim()) {
+         setHits(null)
+         setActiveHit(null)
+         return
+      }
+
+      const controller = new AbortController()
+      abortRef.current = controller
+      setActiveHit(null)
+      setProgress({ scanned: 0, total: doc?.numPages ?? 0 })
+      const found = await index.search(query, {
+         signal: controller.signal,
+         onProgress: (scanned, total) => {
+            if (!controller.signal.aborted) setProgress({ scanned, total })
+         },
+      })
+      if (controller.signal.aborted) return
+      setHits(found)
+      setProgress(null)
+   }
+
+   const clear = () => {
+      abortRef.current?.abort()
+      setQuery('')
+      setHits(null)
+      setActiveHit(null)
+      setProgress(null)
+   }
+
+   // 페이지별 하이라이트 사각형(선택된 결과는 강조)
+   const highlightsByPage = useMemo(() => {
+      const map = new Map<number, Array<{ rects: SearchHit['rects']; active: boolean }>>()
+      for (const hit of hits ?? []) {
+         const list = map.get(hit.pageIndex) ?? []
+         list.push({ rects: hit.rects, active: hit === activeHit })
+         map.set(hit.pageIndex, list)
+      }
+      return map
+   }, [hits, activeHit])
+
+   // 소리 내어 읽기 등 다른 기능도 같은 페이지 텍스트 캐시를 씀
+   const getPageText = index ? index.getPageText : null
+
+   return { query, setQuery, hits, activeHit, setActiveHit, progress, run, clear, highlightsByPage, getPageText }
+}
+
+export type TextSearchState = ReturnType<typeof useTextSearch>
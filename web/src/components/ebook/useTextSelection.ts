@@ -0,0 +1,31 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { readTextSelection, type TextSelectionInfo } from './textSelection'
+
+// 텍스트 레이어 안의 현재 선택을 추적(형광펜 도구 막대 표시용)
+export function useTextSelection(enabled: boolean) {
+   const [selection, setSelection] = useState<TextSelectionInfo | null>(null)
+
+   useEffect(() => {
+      if (!enabled) return
+      const update = () => setSelection(readTextSelection())
+      document.addEventListener('selectionchange', update)
+      // 스크롤/창 크기 변화로 선택 위치가 움직이면 도구 막대도 따라감
+      window.addEventListener('scroll', update, true)
+      window.addEventListener('resize', update)
+      return () => {
+         document.removeEventListener('selectionchange', update)
+         window.removeEventListener('scroll', update, true)
+         window.removeEventListener('resize', update)
+         setSelection(null)
+      }
+   }, [enabled])
+
+   const clear = () => {
+      window.getSelection()?.removeAllRanges()
+      setSelection(null)
+   }
+
+   return { selection, clear }
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useEffect, useRef, type RefObject } from 'react'
+import type { ViewPoint } from './zoomAnchor'
+
+// 두 번 탭으로 인정하는 간격/거리. 한 번 탭은 이 시간만큼 기다렸다가 처리
+const DOUBLE_TAP_MS = 250
+const DOUBLE_TAP_SLOP = 30
+// 이보다 적게 움직이면 탭
+const TAP_SLOP = 10
+const TAP_MAX_MS = 500
+// 가로로 이만큼 빠르게 밀면 페이지 넘김
+const SWIPE_MIN_DISTANCE = 50
+const SWIPE_MAX_MS = 800
+
+export type PinchState = {
+   // 시작 대비 손가락 사이 거리 비율
+   scale: number
+   // 두 손가락 가운데(시작/현재, 화면 좌표)
+   origin: ViewPoint
+   center: ViewPoint
+}
+
+type TouchGestureHandlers = {
+   onTap: (point: ViewPoint) => void
+   onDoubleTap: (point: ViewPoint) => void
+   onSwipe: (direction: 'left' | 'right') => void
+   onPinchMove: (pinch: PinchState) => void
+   onPinchEnd: (pinch: PinchState) => void
+}
+
+type UseTouchGesturesOptions = TouchGestureHandlers & {
+   enabled: boolean
+   // 확대 중에는 한 손가락 끌기가 스크롤이므로 넘김을 끔
+   swipe: boolean
+}
+
+type Tracking = { start: ViewPoint; startedAt: number; moved: boolean }
+
+const centerOf = (a: Touch, b: Touch): ViewPoint => ({ x: (a.clientX + b.clientX) / 2, y: (a.clientY + b.clientY) / 2 })
+const distanceOf = (a: Touch, b: Touch) => Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+
+// 모바일 뷰어 터치 제스처: 탭/두 번 탭/가로 밀기/두 손가락 확대. 좌표는 모두 clientX/Y
+export function useTouchGestures<T extends HTMLElement>(ref: RefObject<T | null>, { enabled, swipe, ...handlers }: UseTouchGesturesOptions) {
+   const handlersRef = useRef(handlers)
+   const swipeRef = useRef(swipe)
+
+   useEffect(() => {
+      handlersRef.current = handlers
+      swipeRef.current = swipe
+   })
+
+   useEffect(() => {
+      const el = ref.current
+      if (!enabled || !el) return
+
+      let tracking: Tracking | null = null
+      let pinch: (PinchState & { startDistance: number }) | null = null
+      let lastTap: { point: ViewPoint; at: number } | null = null
+      let tapTimer: number | null = null
+
+      const clearTapTimer = () => {
+         if (tapTimer !== null) window.clearTimeout(tapTimer)
+         tapTimer = null
+      }
+
+      const onTouchStart = (e: TouchEvent) => {
+         if (e.touches.length >= 2) {
+            const [a, b] = [e.touches[0], e.touches[1]]
+            const center = centerOf(a, b)
+            pinch = { scale: 1, origin: center, center, startDistance: Math.max(1, distanceOf(a, b)) }
+            tracking = null
+            clearTapTimer()
+            lastTap = null
+            if (e.cancelable) e.preventDefault()
+            return
+         }
+         if (pinch) return
+         const t = e.touches[0]
+         tracking = { start: { x: t.clientX, y: t.clientY }, startedAt: performance.now(), moved: false }
+      }
+
+      const onTouchMove = (e: TouchEvent) => {
+         if (pinch && e.touches.length >= 2) {
+            const [a, b] = [e.touches[0], e.touches[1]]
+            pinch = { ...pinch, scale: distanceOf(a, b) / pinch.startDistance, center: centerOf(a, b) }
+            // 브라우저 화면 확대/스크롤 대신 책만 확대
+            if (e.cancelable) e.preventDefault()
+            handlersRef.current.onPinchMove(pinch)
+            return
+         }
+         if (!tracking) return
+         const t = e.touches[0]
+         if (Math.hypot(t.clientX - tracking.start.x, t.clientY - tracking.start.y) > TAP_SLOP) tracking.moved = true
+      }
+
+      const onTouchEnd = (e: TouchEvent) => {
+         if (pinch) {
+            // 한 손가락이라도 떼면 확대 확정. 남은 손가락은 탭/밀기로 보지 않음
+            if (e.touches.length < 2) {
+               const { scale, origin, center } = pinch
+               pinch = null
+               tracking = null
+               handlersRef.current.onPinchEnd({ scale, origin, center })
+            }
+            return
+         }
+         const current = tracking
+         tracking = null
+         if (!current || e.touches.length > 0 || e.type === 'touchcancel') return
+
+         const t = e.changedTouches[0]
+         const point = { x: t.clientX, y: t.clientY }
+         const elapsed = performance.now() - current.startedAt
+
+         if (!current.moved && elapsed < TAP_MAX_MS) {
+            // 뒤따르는 마우스 호환 이벤트(click 등)로 두 번 처리되지 않게
+            if (e.cancelable) e.preventDefault()
+            const now = performance.now()
+            if (lastTap && now - lastTap.at < DOUBLE_TAP_MS && Math.hypot(point.x - lastTap.point.x, point.y - lastTap.point.y) < DOUBLE_TAP_SLOP) {
+               clearTapTimer()
+               lastTap = null
+               handlersRef.current.onDoubleTap(point)
+               return
+            }
+            lastTap = { point, at: now }
+            clearTapTimer()
+            tapTimer = window.setTimeout(() => {
+               tapTimer = null
+               lastTap = null
+               handlersRef.current.onTap(point)
+            }, DOUBLE_TAP_MS)
+            return
+         }
+
+         const dx = point.x - current.start.x
+         const dy = point.y - current.start.y
+         if (swipeRef.current && elapsed < SWIPE_MAX_MS && Math.abs(dx) >= SWIPE_MIN_DISTANCE && Math.abs(dx) > Math.abs(dy) * 1.5) {
+            handlersRef.current.onSwipe(dx < 0 ? 'left' : 'right')
+         }
+      }
+
+      // iOS 사파리는 touch-action과 별개로 화면 전체 확대 제스처를 보냄
+      const onGestureStart = (e: Event) => e.preventDefault()
+
+      el.addEventListener('touchstart', onTouchStart, { passive: false })
+      el.addEventListener('touchmove', onTouchMove, { passive: false })
+      el.addEventListener('touchend', onTouchEnd, { passive: false })
+      el.addEventListener('touchcancel', onTouchEnd)
+      el.addEventListener('gesturestart', onGestureStart)
+      return () => {
+         clearTapTimer()
+         el.removeEventListener('touchstart', onTouchStart)
+         el.removeEventListener('touchmove', onTouchMove)
+         el.removeEventListener('touchend', onTouchEnd)
+         el.removeEventListener('touchcancel', onTouchEnd)
+         el.removeEventListener('gesturestart', onGestureStart)
+      }
+   }, [enabled, ref])
+}
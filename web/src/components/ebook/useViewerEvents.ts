@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react'
+import type { PdfLoadStatus } from './usePdfDocument'
+import type { EbookViewerEvent } from './viewerApi'
+
+type UseViewerEventsOptions = {
+   // 플립북이 시작 쪽(딥링크 포함)을 펼쳐 놓아 명령을 받을 수 있는 상태인지
+   ready: boolean
+   status: PdfLoadStatus
+   pageIndex: number
+   numPages: number
+   zoom: number
+   onEvent?: (event: EbookViewerEvent) => void
+}
+
+// 문서 준비(ready) → 쪽 바뀜(pagechange)과 로드 실패(error)를 알림. 자동 재시도마다 같은 실패를 거듭 알리지 않음
+export function useViewerEvents({ ready, status, pageIndex, numPages, zoom, onEvent }: UseViewerEventsOptions) {
+   const onEventRef = useRef(onEvent)
+   const zoomRef = useRef(zoom)
+   const reportedPageRef = useRef<number | null>(null)
+   // 이미 알린 실패 종류. 문서가 다시 준비되면 비움
+   const reportedErrorRef = useRef<string | null>(null)
+
+   useEffect(() => {
+      onEventRef.current = onEvent
+      zoomRef.current = zoom
+   }, [onEvent, zoom])
+
+   useEffect(() => {
+      if (!ready) {
+         // 다시 불러오면 ready부터 새로 알림
+         reportedPageRef.current = null
+         return
+      }
+      if (reportedPageRef.current === pageIndex) return
+      const type = reportedPageRef.current == null ? 'ready' : 'pagechange'
+      reportedPageRef.current = pageIndex
+      onEventRef.current?.({ type, state: { page: pageIndex + 1, numPages, zoom: zoomRef.current } })
+   }, [ready, pageIndex, numPages])
+
+   const error = status.state === 'error' ? status.error : null
+   const loaded = status.state === 'ready'
+   useEffect(() => {
+      if (loaded) reportedErrorRef.current = null
+      if (!error || reportedErrorRef.current === error.kind) return
+      reportedErrorRef.current = error.kind
+      onEventRef.current?.({ type: 'error', error: { kind: error.kind, message: error.title } })
+   }, [error, loaded])
+}
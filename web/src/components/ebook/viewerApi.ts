@@ -0,0 +1,20 @@
+import type { PdfErrorKind } from './pdfErrors'
+
+// 뷰어를 바깥(교재 삽입 페이지 등)에서 다루기 위한 최소한의 약속. 쪽 번호는 사람이 보는 1부터
+
+export type EbookViewerState = {
+   page: number
+   numPages: number
+   zoom: number
+}
+
+export type EbookViewerHandle = {
+   goToPage: (page: number) => void
+   setZoom: (zoom: number) => void
+   getState: () => EbookViewerState
+}
+
+export type EbookViewerEvent =
+   | { type: 'ready'; state: EbookViewerState }
+   | { type: 'pagechange'; state: EbookViewerState }
+   | { type: 'error'; error: { kind: PdfErrorKind; message: string } }
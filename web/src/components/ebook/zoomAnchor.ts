@@ -0,0 +1,47 @@
+// 확대/축소 뒤에도 손가락(또는 커서) 아래의 같은 지점이 화면의 같은 자리에 오도록 스크롤을 맞추는 계산
+// 스크롤 영역 안에서 책은 여백(pad)을 뺀 공간의 가운데에 놓이고, 책이 더 크면 여백까지 스크롤됨
+
+export type ViewPoint = { x: number; y: number }
+
+// fx/fy: 책(보이는 페이지 묶음) 안에서의 비율 위치, x/y: 맞출 화면 위치(스크롤 영역 기준)
+export type ZoomAnchor = { fx: number; fy: number; x: number; y: number }
+
+type BookSize = { w: number; h: number }
+
+// 숫자 하나면 네 방향 같은 여백
+export type ContentPadding = number | { top: number; right: number; bottom: number; left: number }
+
+const sides = (pad: ContentPadding) => (typeof pad === 'number' ? { top: pad, right: pad, bottom: pad, left: pad } : pad)
+
+const bookOffset = (viewport: number, size: number, before: number, after: number) => before + (Math.max(viewport, size + before + after) - before - after - size) / 2
+
+// 스크롤 영역 기준 좌표로 변환
+export function toViewPoint(el: HTMLElement, clientX: number, clientY: number): ViewPoint {
+   const rect = el.getBoundingClientRect()
+   return { x: clientX - rect.left, y: clientY - rect.top }
+}
+
+// from: 지금 화면에서 기준이 되는 지점, to: 확대 후 그 지점이 놓일 화면 위치(핀치 중 손가락이 움직인 만큼)
+export function zoomAnchorAt(el: HTMLElement, book: BookSize, pad: ContentPadding, from: ViewPoint, to: ViewPoint = from): ZoomAnchor {
+   const p = sides(pad)
+   const left = bookOffset(el.clientWidth, book.w, p.left, p.right)
+   const top = bookOffset(el.clientHeight, book.h, p.top, p.bottom)
+   return {
+      fx: book.w > 0 ? (el.scrollLeft + from.x - left) / book.w : 0.5,
+      fy: book.h > 0 ? (el.scrollTop + from.y - top) / book.h : 0.5,
+      x: to.x,
+      y: to.y,
+   }
+}
+
+// 새 크기의 책이 그려진 뒤 호출. 레이아웃이 아직 덜 잡혀 스크롤이 잘리면 false(다음 프레임에 다시)
+export function scrollToZoomAnchor(el: HTMLElement, book: BookSize, pad: ContentPadding, anchor: ZoomAnchor): boolean {
+   const p = sides(pad)
+   const left = Math.max(0, bookOffset(el.clientWidth, book.w, p.left, p.right) + anchor.fx * book.w - anchor.x)
+   const top = Math.max(0, bookOffset(el.clientHeight, book.h, p.top, p.bottom) + anchor.fy * book.h - anchor.y)
+   const maxLeft = Math.max(0, book.w + p.left + p.right - el.clientWidth)
+   const maxTop = Math.max(0, book.h + p.top + p.bottom - el.clientHeight)
+   el.scrollLeft = Math.min(left, maxLeft)
+   el.scrollTop = Math.min(top, maxTop)
+   return Math.abs(el.scrollLeft - Math.min(left, maxLeft)) <= 1 && Math.abs(el.scrollTop - Math.min(top, maxTop)) <= 1
+}
@@ -0,0 +1,36 @@
+// 교재 목록(매니페스트). 새 교재는 public 아래에 PDF/표지를 두고 여기에 한 줄 추가하면
+// `/books/[slug]` 정적 경로가 빌드 시 자동으로 생성된다(output: "export" 대응).
+
+// PDF에 목차(outline)가 없는 교재용 목차. page는 1부터 시작하는 쪽 번호
+export type BookTocEntry = {
+   title: string
+   page: number
+   items?: BookTocEntry[]
+}
+
+export type Book = {
+   slug: string
+   title: string
+   pdfUrl: string
+   cover?: string
+   description?: string
+   toc?: BookTocEntry[]
+   // 암호가 걸린 PDF로 배포되는 교재(열 때 비밀번호 안내 문구를 바꿔 보여줌)
+   passwordProtected?: boolean
+   // 고른 쪽 인쇄(적지 않으면 허용). 출판사가 막기를 원하면 false
+   allowPrint?: boolean
+   // 고른 쪽을 PDF 파일로 내려받기(적지 않으면 막음)
+   allowDownload?: boolean
+}
+
+export const books: Book[] = [
+   {
+      slug: 'hanall-textbook',
+      title: '한올평생교육원 교재',
+      pdfUrl: '/book.pdf',
+   },
+]
+
+export function getBook(slug: string): Book | null {
+   return books.find((b) => b.slug === slug) ?? null
+}
@@ -0,0 +1,19 @@
+// 브라우저에서 만든 내용을 파일로 내려받게 함(정적 배포라 서버를 거치지 않음)
+export function downloadBlob(filename: string, blob: Blob) {
+   const url = URL.createObjectURL(blob)
+   const a = document.createElement('a')
+   a.href = url
+   a.download = filename
+   a.click()
+   // 다운로드가 시작될 시간을 준 뒤 반납
+   window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function downloadText(filename: string, text: string, type: string) {
+   downloadBlob(filename, new Blob([text], { type: `${type};charset=utf-8` }))
+}
+
+// /files/book.pdf → book
+export function baseNameFromUrl(url: string, fallback = 'book') {
+   return url.split(/[?#]/)[0].split('/').pop()?.replace(/\.pdf$/i, '') || fallback
+}
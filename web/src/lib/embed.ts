@@ -0,0 +1,47 @@
+// 교재 삽입(iframe) 페이지의 postMessage 약속. 자세한 사용법은 README의 "교재 삽입" 참고
+//  - 부모 → 뷰어: { channel, type: 'goToPage', page } | { channel, type: 'setZoom', zoom } | { channel, type: 'getState', id? }
+//  - 뷰어 → 부모: { channel, type: 'ready' | 'pagechange', state } | { channel, type: 'error', error } | { channel, type: 'state', id, state }
+
+import type { EbookViewerEvent, EbookViewerState } from '@/components/ebook/viewerApi'
+
+export const EMBED_CHANNEL = 'hanall-ebook'
+
+// 교재를 넣어 쓸 수 있는 사이트(LMS) 주소. 빌드 때 NEXT_PUBLIC_EMBED_ORIGINS(쉼표로 구분)로도 더할 수 있음
+const EMBED_ORIGINS: string[] = []
+
+const allowedOrigins = new Set(
+   [...EMBED_ORIGINS, ...(process.env.NEXT_PUBLIC_EMBED_ORIGINS ?? '').split(',')]
+      .map((origin) => origin.trim().replace(/\/+$/, ''))
+      .filter(Boolean)
+)
+
+export function isAllowedEmbedOrigin(origin: string): boolean {
+   return allowedOrigins.has(origin)
+}
+
+export type EmbedCommand = { type: 'goToPage'; page: number } | { type: 'setZoom'; zoom: number } | { type: 'getState'; id?: string | number }
+
+export type EmbedMessage = EbookViewerEvent | { type: 'state'; id?: string | number; state: EbookViewerState }
+
+// 모양이 맞지 않는 메시지는 조용히 버림(같은 페이지의 다른 스크립트가 보낸 것일 수 있음)
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+   if (!data || typeof data !== 'object') return null
+   const d = data as { channel?: unknown; type?: unknown; page?: unknown; zoom?: unknown; id?: unknown }
+   if (d.channel !== EMBED_CHANNEL) return null
+   switch (d.type) {
+      case 'goToPage':
+         return typeof d.page === 'number' && Number.isFinite(d.page) ? { type: 'goToPage', page: d.page } : null
+      case 'setZoom':
+         return typeof d.zoom === 'number' && Number.isFinite(d.zoom) ? { type: 'setZoom', zoom: d.zoom } : null
+      case 'getState':
+         return { type: 'getState', id: typeof d.id === 'string' || typeof d.id === 'number' ? d.id : undefined }
+   }
+   return null
+}
+
+// 부모 주소를 미리 알 수 없으므로 허용 목록의 주소마다 보내고, 브라우저가 맞는 곳에만 전달하게 함
+export function postToEmbedParent(message: EmbedMessage, targetOrigin?: string) {
+   if (typeof window === 'undefined' || window.parent === window) return
+   const payload = { channel: EMBED_CHANNEL, ...message }
+   for (const origin of targetOrigin ? [targetOrigin] : allowedOrigins) window.parent.postMessage(payload, origin)
+}
@@ -0,0 +1,51 @@
+// IndexedDB 접근 도우미. localStorage에 담기엔 크거나 많은 사용자 데이터(메모 등)를 보관
+const DB_NAME = 'hanall-ebook'
+const DB_VERSION = 1
+
+export const NOTES_STORE = 'notes'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openDb(): Promise<IDBDatabase> {
+   if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+         if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB를 사용할 수 없는 환경입니다.'))
+            return
+         }
+         const req = indexedDB.open(DB_NAME, DB_VERSION)
+         req.onupgradeneeded = () => {
+            const db = req.result
+            if (!db.objectStoreNames.contains(NOTES_STORE)) {
+               const store = db.createObjectStore(NOTES_STORE, { keyPath: 'id' })
+               store.createIndex('book', 'book')
+            }
+         }
+         req.onsuccess = () => resolve(req.result)
+         req.onerror = () => reject(req.error)
+         // 다른 탭이 이전 버전으로 열고 있으면 업그레이드가 막힘
+         req.onblocked = () => reject(new Error('다른 탭에서 책을 닫은 뒤 다시 시도해 주세요.'))
+      })
+      // 실패하면 다음 호출에서 다시 열기
+      dbPromise.catch(() => {
+         dbPromise = null
+      })
+   }
+   return dbPromise
+}
+
+export function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+   return new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+   })
+}
+
+// 쓰기 트랜잭션이 실제로 디스크에 반영될 때까지 기다림
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+   return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+   })
+}
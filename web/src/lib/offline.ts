@@ -0,0 +1,67 @@
+// 오프라인 저장(Cache API). 캐시 이름은 public/sw.js와 맞춰야 함
+// public/sw.js의 VERSION과 항상 같은 값(서비스 워커는 번들되지 않아 이 값을 가져다 쓸 수 없음)
+const SW_VERSION = 'v2'
+const RUNTIME_CACHE = `ebook-runtime-${SW_VERSION}`
+const BOOKS_CACHE = 'ebook-books'
+
+export type OfflineProgress = { loaded: number; total: number | null }
+
+export function isOfflineSupported() {
+   return typeof window !== 'undefined' && 'caches' in window && 'serviceWorker' in navigator
+}
+
+const absolute = (url: string) => new URL(url, window.location.href).href
+
+export async function isBookStored(pdfUrl: string) {
+   const cache = await caches.open(BOOKS_CACHE)
+   return !!(await cache.match(absolute(pdfUrl), { ignoreSearch: true }))
+}
+
+// 교재 화면 HTML과 그 화면이 쓰는 /_next/static 파일을 함께 저장(처음부터 오프라인으로 열 수 있게)
+async function storePage(pageUrl: string, signal?: AbortSignal) {
+   const cache = await caches.open(RUNTIME_CACHE)
+   const response = await fetch(pageUrl, { signal })
+   if (!response.ok) return
+   const html = await response.clone().text()
+   await cache.put(absolute(pageUrl), response)
+   const assets = new Set(html.match(/\/_next\/static\/[^"'\s)]+/g) ?? [])
+   await Promise.all([...assets].map((asset) => cache.add(asset).catch(() => {})))
+}
+
+type StoreBookOptions = {
+   pdfUrl: string
+   pageUrl: string
+   signal?: AbortSignal
+   onProgress?: (progress: OfflineProgress) => void
+}
+
+export async function storeBookOffline({ pdfUrl, pageUrl, signal, onProgress }: StoreBookOptions) {
+   const response = await fetch(pdfUrl, { signal })
+   if (!response.ok || !response.body) throw new Error(`교재 파일을 받지 못했습니다. (HTTP ${response.status})`)
+
+   const length = Number(response.headers.get('Content-Length'))
+   const total = Number.isFinite(length) && length > 0 ? length : null
+   const reader = response.body.getReader()
+   const chunks: Uint8Array<ArrayBuffer>[] = []
+   let loaded = 0
+   onProgress?.({ loaded, total })
+   for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      loaded += value.byteLength
+      onProgress?.({ loaded, total })
+   }
+
+   const blob = new Blob(chunks, { type: response.headers.get('Content-Type') || 'application/pdf' })
+   const cache = await caches.open(BOOKS_CACHE)
+   await cache.put(absolute(pdfUrl), new Response(blob, { headers: { 'Content-Type': blob.type, 'Content-Length': String(blob.size) } }))
+   await storePage(pageUrl, signal).catch(() => {})
+   // 저장 공간이 부족할 때 브라우저가 임의로 지우지 않도록 요청(거절돼도 저장은 유지)
+   await navigator.storage?.persist?.().catch(() => false)
+}
+
+export async function removeStoredBook(pdfUrl: string) {
+   const cache = await caches.open(BOOKS_CACHE)
+   await cache.delete(absolute(pdfUrl), { ignoreSearch: true })
+}
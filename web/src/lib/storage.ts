@@ -0,0 +1,56 @@
+// localStorage 접근 도우미. 사파리 개인정보 보호 모드 등에서 접근이 막히면 조용히 무시
+export function readJson<T>(key: string): T | null {
+   if (typeof window === 'undefined') return null
+   try {
+      const raw = window.localStorage.getItem(key)
+      return raw ? (JSON.parse(raw) as T) : null
+   } catch {
+      return null
+   }
+}
+
+export function writeJson(key: string, value: unknown) {
+   if (typeof window === 'undefined') return
+   try {
+      window.localStorage.setItem(key, JSON.stringify(value))
+   } catch {
+      // 저장 공간 부족/차단 시 기능만 비활성
+   }
+}
+
+export function removeItem(key: string) {
+   if (typeof window === 'undefined') return
+   try {
+      window.localStorage.removeItem(key)
+   } catch {
+      // noop
+   }
+}
+
+// 탭(세션)이 살아 있는 동안만 유지할 값. 비밀번호처럼 기기에 오래 남기면 안 되는 것에 사용
+export function readSession(key: string): string | null {
+   if (typeof window === 'undefined') return null
+   try {
+      return window.sessionStorage.getItem(key)
+   } catch {
+      return null
+   }
+}
+
+export function writeSession(key: string, value: string) {
+   if (typeof window === 'undefined') return
+   try {
+      window.sessionStorage.setItem(key, value)
+   } catch {
+      // noop
+   }
+}
+
+export function removeSession(key: string) {
+   if (typeof window === 'undefined') return
+   try {
+      window.sessionStorage.removeItem(key)
+   } catch {
+      // noop
+   }
+}
@@ -17,6 +17,7 @@ declare module "react-pageflip" {
     startPage?: number;
     className?: string;
     style?: React.CSSProperties;
+    onInit?: (e: { data: { page: number; mode: string } }) => void;
     onFlip?: (e: { data: number }) => void;
   }>;
 